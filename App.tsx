@@ -1,82 +1,471 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useReducer } from 'react';
 import { Layout } from './components/Layout';
-import { AppStatus, TransformationResult } from './types';
+import { AppStatus, HistoryEntry, MindMapNode, PartialResult, RefinementInstruction, Revision, SourceSpan, TransformationResult } from './types';
 import { RecordingIndicator } from './components/RecordingIndicator';
-import { transformSpeech } from './services/geminiService';
-import { blobToBase64, downloadTextFile } from './utils/audioUtils';
+import { configFor, createTransformer, needsApiKey, providerFromUrl } from './services/transformerRegistry';
+import { downloadTextFile } from './utils/audioUtils';
+import { ProcessingProgress, joinAudio, transformAudio, transformNotes } from './services/chunkedProcessor';
 import { MindMap } from './components/MindMap';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { ImportButton } from './components/ImportButton';
+import { AudioDropZone } from './components/AudioDropZone';
+import { readAudioFile } from './utils/audioFile';
+import { mergeMindMaps } from './utils/mindMapTree';
+import { toMarkdownOutline } from './utils/mindMapExport';
+import { mergeResults } from './utils/resultMerge';
+import { createRevision, saveHistoryEntry, updateHistoryAudio, updateHistoryResult } from './services/historyStore';
+import { useUndoable } from './hooks/useUndoable';
+import { RecordingOutput, useAudioRecorder } from './hooks/useAudioRecorder';
+import { useProcessingQueue } from './hooks/useProcessingQueue';
+import { AppSettings, loadSettings, resolvePreferences, saveSettings } from './services/settingsStore';
+import { ApiKeys, loadApiKeys, saveApiKeys } from './services/apiKeyStore';
+import { OutputSettings } from './components/OutputSettings';
+import { SourcePanel } from './components/SourcePanel';
+import { realignParagraphSources } from './utils/sourceSpans';
+import { renameSpeaker } from './utils/speakers';
+import { isAbortError, throwIfAborted } from './utils/abort';
+import { TransformError, withRetry } from './services/transformErrors';
+import { QueueBanner } from './components/QueueBanner';
+import { RefinementPanel } from './components/RefinementPanel';
+import { SyncPanel } from './components/SyncPanel';
+import { FormalTextEditor } from './components/FormalTextEditor';
+import { DocumentExportMenu } from './components/DocumentExportMenu';
+import { createShareLink, decodeShareFragment } from './utils/shareLink';
+import { TextInputPanel } from './components/TextInputPanel';
+import { outlineText } from './utils/heuristicOutliner';
+import { SettingsPanel } from './components/SettingsPanel';
+import { CommandPalette } from './components/CommandPalette';
+import { isSettled, statusReducer } from './utils/appStatus';
+import { shortcutFor, shortcutLabel } from './utils/commands';
+import { CommandHandlers, useCommands } from './hooks/useCommands';
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-  const [result, setResult] = useState<TransformationResult | null>(null);
+  const [status, dispatch] = useReducer(statusReducer, AppStatus.IDLE);
+  const {
+    value: result,
+    reset: setResult,
+    set: editResult,
+    undo: undoEdit,
+    redo: redoEdit,
+    canUndo,
+    canRedo
+  } = useUndoable<TransformationResult | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  // Text and map streamed in so far while processing
+  const [partial, setPartial] = useState<PartialResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [recordingTime, setRecordingTime] = useState(0);
+  // Recording whose processing failed, kept so it can be retried as-is
+  const [failedRecording, setFailedRecording] = useState<RecordingOutput | null>(null);
   const [viewMode, setViewMode] = useState<'text' | 'mindmap'>('text');
-  
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const timerRef = useRef<number | null>(null);
+  // Recording behind the result on screen, for playing back cited passages
+  const [audio, setAudio] = useState<Blob | null>(null);
+  // Sources of the selected node or paragraph, highlighted in the transcript
+  const [highlight, setHighlight] = useState<{ key: string; spans: SourceSpan[] } | null>(null);
+  // Versions produced by follow-up instructions, oldest first
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [showRefine, setShowRefine] = useState(false);
+  const [refining, setRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  // Last result whose text and map were known to agree
+  const [syncBase, setSyncBase] = useState<TransformationResult | null>(null);
+  // A result opened from a share link is shown read-only until it is saved
+  const [sharedView, setSharedView] = useState(false);
+  // Typed notes waiting to be processed; kept after a failure so they can be retried
+  const [notes, setNotes] = useState('');
+  // Set when typed notes were outlined by rules because no model could be used
+  const [outlinedOffline, setOutlinedOffline] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // ?provider= applies to this visit only and is never saved; choosing a
+  // provider in the settings ends it
+  const [providerOverride, setProviderOverride] = useState(providerFromUrl);
+  const provider = providerOverride || settings.provider;
+  const [apiKeys, setApiKeys] = useState<ApiKeys>(loadApiKeys);
+  const providerConfig = useMemo(
+    () => configFor(provider, settings.connections[provider], apiKeys[provider]),
+    [provider, settings.connections, apiKeys]
+  );
+  const transformer = useMemo(() => createTransformer(providerConfig), [providerConfig]);
+  // Set when a new recording should be merged into the result on screen,
+  // along with the history entry and recording that result came with
+  const mergeBaseRef = useRef<{ result: TransformationResult; historyId: string | null; audio: Blob | null } | null>(null);
+
+  const recorder = useAudioRecorder({
+    maxDurationSeconds: settings.maxRecordingSeconds,
+    onStop: ({ blob, mimeType, duration }) => {
+      dispatch({ type: 'PROCESSING_STARTED' });
+      processAudio(blob, mimeType, duration);
+    }
+  });
+
+  // Queued recordings become history entries without leaving the current screen
+  const queue = useProcessingQueue({
+    process: async entry => {
+      const preferences = resolvePreferences(settings);
+      const data = await transformAudio(transformer, entry.audio, entry.mimeType, entry.duration, { preferences });
+      await saveHistoryEntry({ result: data, audio: entry.audio, mimeType: entry.mimeType, duration: entry.duration });
+    }
+  });
+
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+    if (patch.provider) setProviderOverride(null);
+    // Keys move between session and local storage with the choice
+    if (patch.rememberApiKeys !== undefined) saveApiKeys(apiKeys, patch.rememberApiKeys);
+  };
+
+  const updateApiKeys = (keys: ApiKeys) => {
+    setApiKeys(keys);
+    saveApiKeys(keys, settings.rememberApiKeys);
+  };
 
   const startRecording = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = recorder;
-      audioChunksRef.current = [];
-      
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          audioChunksRef.current.push(e.data);
-        }
-      };
-
-      recorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: recorder.mimeType });
-        await processAudio(audioBlob, recorder.mimeType);
-        stream.getTracks().forEach(track => track.stop());
-      };
-
-      recorder.start();
-      setStatus(AppStatus.RECORDING);
-      setRecordingTime(0);
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      await recorder.start();
+      dispatch({ type: 'RECORDING_STARTED' });
     } catch (err) {
       setError("无法访问麦克风。请检查权限。");
-      setStatus(AppStatus.ERROR);
+      dispatch({ type: 'FAILED' });
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && status === AppStatus.RECORDING) {
-      mediaRecorderRef.current.stop();
-      if (timerRef.current) clearInterval(timerRef.current);
-      setStatus(AppStatus.PROCESSING);
+    if (status === AppStatus.RECORDING) recorder.stop();
+  };
+
+  const togglePause = () => {
+    if (recorder.isPaused) recorder.resume();
+    else recorder.pause();
+  };
+
+  // Recordings made offline are processed later as sessions of their own,
+  // even when they were meant to continue the result on screen
+  const queueForLater = async (blob: Blob, mimeType: string, duration: number) => {
+    const hadBase = !!mergeBaseRef.current;
+    mergeBaseRef.current = null;
+    dispatch({ type: 'CANCELLED', hasResult: hadBase });
+    try {
+      await queue.enqueue({ audio: blob, mimeType, duration });
+    } catch (err) {
+      console.error("保存离线录音失败", err);
+      setFailedRecording({ blob, mimeType, duration });
+      setError("当前处于离线状态，且无法在本地保存录音。");
+      dispatch({ type: 'FAILED' });
     }
   };
 
-  const processAudio = async (blob: Blob, mimeType: string) => {
+  const processAudio = async (blob: Blob, mimeType: string, duration: number) => {
+    if (!navigator.onLine && transformer.online !== false) return queueForLater(blob, mimeType, duration);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const base64 = await blobToBase64(blob);
-      const data = await transformSpeech(base64, mimeType);
+      const preferences = resolvePreferences(settings);
+      const transformed = await transformAudio(
+        transformer, blob, mimeType, duration,
+        { preferences, signal: controller.signal, onPartial: setPartial },
+        setProgress
+      );
+      const base = mergeBaseRef.current;
+      // A continued recording is kept after the earlier one; when that cannot
+      // be decoded the on-screen audio is just the new part, and the history
+      // entry keeps the earlier recording
+      const joined = base?.audio
+        ? await joinAudio(base.audio, blob).catch(err => {
+            console.warn("无法合并录音", err);
+            return null;
+          })
+        : null;
+      throwIfAborted(controller.signal);
+      const data = base ? mergeResults(base.result, transformed, preferences.language, joined?.offset) : transformed;
+      const recording = joined
+        ? { audio: joined.blob, mimeType: 'audio/wav', duration: joined.offset + duration }
+        : { audio: blob, mimeType, duration };
+      mergeBaseRef.current = null;
+      // Written before the result so the history sync below cannot interleave with it
+      if (base?.historyId && (joined || !base.audio)) {
+        await updateHistoryAudio(base.historyId, recording.audio, recording.mimeType, recording.duration)
+          .catch(err => console.error("更新历史记录失败", err));
+      }
+      setFailedRecording(null);
+      setOutlinedOffline(false);
       setResult(data);
-      setStatus(AppStatus.RESULT);
+      setSyncBase(data);
+      setRevisions(base ? list => [...list, createRevision(data, '合并新录音')] : [createRevision(data)]);
+      setAudio(recording.audio);
+      setHighlight(null);
+      dispatch({ type: 'RESULT_READY' });
+      if (base?.historyId) {
+        setHistoryId(base.historyId);
+      } else {
+        saveHistoryEntry({ result: data, ...recording })
+          .then(entry => setHistoryId(entry.id))
+          .catch(err => console.error("保存历史记录失败", err));
+      }
     } catch (err: any) {
+      // cancelProcessing has already moved on
+      if (controller.signal.aborted || isAbortError(err)) return;
+      if (err instanceof TransformError && err.code === 'network' && !navigator.onLine) {
+        return queueForLater(blob, mimeType, duration);
+      }
+      setFailedRecording({ blob, mimeType, duration });
       setError(err.message || "处理过程中出现错误。");
-      setStatus(AppStatus.ERROR);
+      dispatch({ type: 'FAILED' });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      setPartial(null);
     }
   };
 
+  // Without a usable model (no key, or offline) notes are outlined by rules
+  // instead of failing, since that needs nothing but the text
+  const processNotes = async (text: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    dispatch({ type: 'PROCESSING_STARTED' });
+    try {
+      const preferences = resolvePreferences(settings);
+      let outlined = !navigator.onLine && transformer.online !== false;
+      let data: TransformationResult;
+      if (outlined) {
+        data = outlineText(text, preferences);
+      } else {
+        try {
+          data = await transformNotes(transformer, text, { preferences, signal: controller.signal, onPartial: setPartial }, setProgress);
+        } catch (err) {
+          const unusable = err instanceof TransformError
+            && (err.code === 'missing_api_key' || (err.code === 'network' && !navigator.onLine));
+          if (!unusable || controller.signal.aborted) throw err;
+          data = outlineText(text, preferences);
+          outlined = true;
+        }
+      }
+      setNotes('');
+      setFailedRecording(null);
+      setOutlinedOffline(outlined);
+      setResult(data);
+      setSyncBase(data);
+      setRevisions([createRevision(data)]);
+      setAudio(null);
+      setHighlight(null);
+      setViewMode('text');
+      dispatch({ type: 'RESULT_READY' });
+      saveHistoryEntry({ result: data, duration: 0 })
+        .then(entry => setHistoryId(entry.id))
+        .catch(err => console.error("保存历史记录失败", err));
+    } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setError(err.message || "处理过程中出现错误。");
+      dispatch({ type: 'FAILED' });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      setPartial(null);
+    }
+  };
+
+  // Continuing a recording goes back to the result it would have been merged into
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+    const hadBase = !!mergeBaseRef.current;
+    mergeBaseRef.current = null;
+    dispatch({ type: 'CANCELLED', hasResult: hadBase });
+  };
+
+  const retryFailedRecording = () => {
+    if (!failedRecording) return;
+    const { blob, mimeType, duration } = failedRecording;
+    setError(null);
+    dispatch({ type: 'PROCESSING_STARTED' });
+    processAudio(blob, mimeType, duration);
+  };
+
+  const handleAudioFile = async (file: File) => {
+    setError(null);
+    dispatch({ type: 'PROCESSING_STARTED' });
+    try {
+      const { blob, mimeType, duration } = await readAudioFile(file);
+      await processAudio(blob, mimeType, duration);
+    } catch (err: any) {
+      setError(err.message || "无法读取音频文件。");
+      dispatch({ type: 'FAILED' });
+    }
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    setOutlinedOffline(false);
+    setResult(entry.result);
+    setSyncBase(entry.result);
+    setRevisions(entry.revisions || [createRevision(entry.result)]);
+    setAudio(entry.audio || null);
+    setHighlight(null);
+    setHistoryId(entry.id);
+    setError(null);
+    setViewMode('text');
+    dispatch({ type: 'RESULT_READY' });
+  };
+
+  const continueRecording = () => {
+    mergeBaseRef.current = result ? { result, historyId, audio } : null;
+    startRecording();
+  };
+
+  const openImportedMap = (mindMap: MindMapNode, fileName: string) => {
+    const data: TransformationResult = {
+      originalTranscription: '',
+      formalText: toMarkdownOutline(mindMap),
+      mindMap
+    };
+    setResult(data);
+    setSyncBase(data);
+    setRevisions([createRevision(data)]);
+    setAudio(null);
+    setHighlight(null);
+    setHistoryId(null);
+    setError(null);
+    setViewMode('mindmap');
+    dispatch({ type: 'RESULT_READY' });
+    saveHistoryEntry({ result: data, duration: 0, title: fileName.replace(/\.[^.]+$/, '') })
+      .then(entry => setHistoryId(entry.id))
+      .catch(err => console.error("保存历史记录失败", err));
+  };
+
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  // A share link opened while recording or processing waits until that is done
+  const shareWaitingRef = useRef(false);
+
+  const openSharedResult = useCallback(() => {
+    const canShow = () => {
+      if (isSettled(statusRef.current)) return true;
+      shareWaitingRef.current = true;
+      return false;
+    };
+    if (!canShow()) return;
+    decodeShareFragment(location.hash)
+      .then(shared => {
+        if (!shared || !canShow()) return;
+        setResult(shared);
+        setSyncBase(shared);
+        setRevisions([]);
+        setAudio(null);
+        setHighlight(null);
+        setHistoryId(null);
+        setError(null);
+        setShowRefine(false);
+        setViewMode('text');
+        setSharedView(true);
+        dispatch({ type: 'RESULT_READY' });
+      })
+      .catch(err => {
+        if (!canShow()) return;
+        setError(err.message);
+        dispatch({ type: 'FAILED' });
+      });
+  }, [setResult]);
+
+  useEffect(() => {
+    openSharedResult();
+    window.addEventListener('hashchange', openSharedResult);
+    return () => window.removeEventListener('hashchange', openSharedResult);
+  }, [openSharedResult]);
+
+  useEffect(() => {
+    if (shareWaitingRef.current && isSettled(status)) {
+      shareWaitingRef.current = false;
+      openSharedResult();
+    }
+  }, [status, openSharedResult]);
+
+  const clearShareFragment = () => {
+    if (location.hash) history.replaceState(null, '', `${location.pathname}${location.search}`);
+  };
+
+  const keepSharedResult = () => {
+    if (!result) return;
+    clearShareFragment();
+    setSharedView(false);
+    setRevisions([createRevision(result)]);
+    saveHistoryEntry({ result, duration: 0 })
+      .then(entry => setHistoryId(entry.id))
+      .catch(err => console.error("保存历史记录失败", err));
+  };
+
+  const mergeImportedMap = (mindMap: MindMapNode) => {
+    if (result) editResult({ ...result, mindMap: mergeMindMaps(result.mindMap, mindMap) });
+  };
+
+  // Keep the saved session in step with edits, undo, redo and revisions
+  useEffect(() => {
+    if (historyId && result) {
+      updateHistoryResult(historyId, result, revisions).catch(err => console.error("更新历史记录失败", err));
+    }
+  }, [historyId, result, revisions]);
+
+  const refineResult = async (instruction: RefinementInstruction) => {
+    if (!result) return;
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    setRefining(true);
+    setRefineError(null);
+    try {
+      const options = { preferences: resolvePreferences(settings), signal: controller.signal };
+      const refined = await withRetry<TransformationResult>(() => transformer.refine(result, instruction, options), { signal: controller.signal });
+      editResult(refined);
+      setSyncBase(refined);
+      setRevisions(list => [...list, createRevision(refined, 'text' in instruction ? instruction.text : '（口述的修改要求）')]);
+      setHighlight(null);
+    } catch (err: any) {
+      if (!isAbortError(err)) setRefineError(err.message || "修订失败。");
+    } finally {
+      if (refineAbortRef.current === controller) refineAbortRef.current = null;
+      setRefining(false);
+    }
+  };
+
+  const revertTo = (revision: Revision) => {
+    editResult(revision.result);
+    setSyncBase(revision.result);
+    setHighlight(null);
+  };
+
+  // Renaming touches text and map alike, so it keeps them in sync
+  const renameSpeakerInResult = (id: string, name: string) => {
+    if (!result) return;
+    const renamed = renameSpeaker(result, id, name);
+    if (syncBase === result) setSyncBase(renamed);
+    editResult(renamed);
+  };
+
   const reset = () => {
-    setStatus(AppStatus.IDLE);
+    mergeBaseRef.current = null;
+    refineAbortRef.current?.abort();
+    setFailedRecording(null);
+    setRevisions([]);
+    setSyncBase(null);
+    clearShareFragment();
+    setSharedView(false);
+    setOutlinedOffline(false);
+    setRefineError(null);
+    dispatch({ type: 'RESET' });
     setResult(null);
+    setAudio(null);
+    setHighlight(null);
+    setHistoryId(null);
     setError(null);
-    setRecordingTime(0);
     setViewMode('text');
   };
 
+  const showSources = (key: string, spans: SourceSpan[] = []) => setHighlight({ key, spans });
+
   const copyToClipboard = () => {
     if (result) {
       navigator.clipboard.writeText(result.formalText);
@@ -84,46 +473,155 @@ const App: React.FC = () => {
     }
   };
 
+  const downloadFormalText = () => downloadTextFile(result?.formalText || "", "formal-text.md", "text/markdown");
+
+  // Shares a link that carries the whole result, map and transcript included
   const handleShare = async () => {
-    if (result && navigator.share) {
+    if (!result) return;
+    let url: string;
+    try {
+      url = await createShareLink(result);
+    } catch (err: any) {
+      alert(err.message || "无法生成分享链接。");
+      return;
+    }
+    if (navigator.share) {
       try {
         await navigator.share({
           title: '正式语言转换结果',
-          text: result.formalText,
+          url,
         });
       } catch (err) {
         console.error("分享失败", err);
       }
     } else {
-      copyToClipboard();
+      await navigator.clipboard.writeText(url);
+      alert("分享链接已复制到剪贴板！");
     }
   };
 
+  const openHistory = () => dispatch({ type: 'OPEN_HISTORY' });
+  const openSettings = () => dispatch({ type: 'OPEN_SETTINGS' });
+  const closePanel = () => dispatch({ type: 'CLOSE_PANEL' });
+
+  // What the shortcuts and the command palette can do right now; commands
+  // without a handler, e.g. editing a shared result, are left out
+  const commandHandlers: CommandHandlers = {
+    'palette.open': () => setPaletteOpen(open => !open),
+    'record.start': startRecording,
+    'record.stop': stopRecording,
+    'record.pause': togglePause,
+    'processing.cancel': cancelProcessing,
+    'view.text': () => setViewMode('text'),
+    'view.mindmap': () => setViewMode('mindmap'),
+    'result.copy': copyToClipboard,
+    'result.download': downloadFormalText,
+    'result.share': handleShare,
+    ...(!sharedView && {
+      'result.refine': () => setShowRefine(!showRefine),
+      'result.continue': continueRecording
+    }),
+    ...(failedRecording && { 'error.retry': retryFailedRecording }),
+    'app.reset': reset,
+    'app.history': openHistory,
+    'app.settings': openSettings
+  };
+  const commands = useCommands(status, commandHandlers);
+
   const renderContent = () => {
     switch (status) {
       case AppStatus.IDLE:
         return (
           <div className="flex flex-col items-center py-10">
-            <button
-              onClick={startRecording}
-              className="group relative flex items-center justify-center w-32 h-32 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-lg hover:shadow-indigo-200 active:scale-95"
-            >
-              <i className="fa-solid fa-microphone text-4xl group-hover:scale-110 transition-transform"></i>
-            </button>
-            <p className="mt-8 text-slate-600 font-medium">点击开始说话</p>
-            <p className="mt-2 text-slate-400 text-sm">语音将自动转写为正式语言并生成脑图</p>
+            {needsApiKey(providerConfig) && (
+              <div className="mb-8 w-full rounded-xl border border-amber-100 bg-amber-50 p-4 flex flex-wrap items-center gap-3 text-sm text-amber-800">
+                <i className="fa-solid fa-key"></i>
+                <span className="flex-1">尚未配置 API 密钥，录音无法处理；文字笔记将离线整理。</span>
+                <button
+                  onClick={openSettings}
+                  className="text-xs font-semibold px-3 py-1 rounded-full bg-white border border-amber-200 text-amber-700 hover:bg-amber-100"
+                >
+                  打开设置
+                </button>
+              </div>
+            )}
+            <AudioDropZone onFile={handleAudioFile}>
+              <button
+                onClick={startRecording}
+                className="group relative flex items-center justify-center w-32 h-32 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-lg hover:shadow-indigo-200 active:scale-95"
+              >
+                <i className="fa-solid fa-microphone text-4xl group-hover:scale-110 transition-transform"></i>
+              </button>
+              <p className="mt-8 text-slate-600 font-medium">点击开始说话</p>
+              <p className="mt-2 text-slate-400 text-sm">语音将自动转写为正式语言并生成脑图，也可将音频文件拖放到此处</p>
+              <p className="mt-2 text-slate-300 text-xs">
+                按 {shortcutLabel(shortcutFor('record.start'))} 开始录音，{shortcutLabel(shortcutFor('palette.open'))} 打开命令面板
+              </p>
+            </AudioDropZone>
+            <div className="mt-6 w-full flex justify-center">
+              <TextInputPanel value={notes} onChange={setNotes} onSubmit={processNotes} offline={transformer.id === 'local'} />
+            </div>
+            <div className="mt-6">
+              <OutputSettings settings={settings} onChange={updateSettings} />
+            </div>
+            <div className="mt-4 flex items-center gap-6">
+              <button
+                onClick={openHistory}
+                className="text-sm text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 font-medium"
+              >
+                <i className="fa-solid fa-clock-rotate-left"></i>
+                历史记录
+              </button>
+              <ImportButton onImport={openImportedMap} label="导入大纲" />
+              <button
+                onClick={openSettings}
+                className="text-sm text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 font-medium"
+              >
+                <i className="fa-solid fa-gear"></i>
+                设置
+              </button>
+            </div>
           </div>
         );
 
+      case AppStatus.HISTORY:
+        return <HistoryPanel onOpen={openHistoryEntry} onClose={closePanel} />;
+
+      case AppStatus.SETTINGS:
+        return (
+          <SettingsPanel
+            settings={{ ...settings, provider }}
+            onChange={updateSettings}
+            apiKeys={apiKeys}
+            onApiKeysChange={updateApiKeys}
+            onClose={closePanel}
+          />
+        );
+
       case AppStatus.RECORDING:
         return (
           <div className="flex flex-col items-center py-10" onClick={stopRecording}>
-            <RecordingIndicator duration={recordingTime} />
-            <button 
-              className="mt-8 px-6 py-2 bg-slate-100 text-slate-600 rounded-full hover:bg-slate-200 transition-colors"
-            >
-              停止录音
-            </button>
+            <RecordingIndicator
+              duration={recorder.elapsed}
+              maxDuration={settings.maxRecordingSeconds}
+              isPaused={recorder.isPaused}
+              isSilent={recorder.isSilent}
+              analyser={recorder.analyser}
+            />
+            <div className="mt-8 flex gap-3">
+              <button 
+                onClick={(e) => { e.stopPropagation(); togglePause(); }}
+                className="px-6 py-2 bg-white border border-slate-200 text-slate-600 rounded-full hover:bg-slate-50 transition-colors flex items-center gap-2"
+              >
+                <i className={`fa-solid ${recorder.isPaused ? 'fa-play' : 'fa-pause'}`}></i>
+                {recorder.isPaused ? '继续' : '暂停'}
+              </button>
+              <button 
+                className="px-6 py-2 bg-slate-100 text-slate-600 rounded-full hover:bg-slate-200 transition-colors"
+              >
+                停止录音
+              </button>
+            </div>
           </div>
         );
 
@@ -137,8 +635,48 @@ const App: React.FC = () => {
             </div>
             <div className="text-center">
               <h3 className="text-xl font-bold text-slate-800">正在构建逻辑结构...</h3>
-              <p className="text-slate-500 mt-2">AI 正在转录、改写并生成思维导图</p>
+              <p className="text-slate-500 mt-2">
+                {progress?.stage === 'decoding' && "正在解码并切分长录音..."}
+                {progress?.stage === 'transforming' && progress.total > 1 && `正在处理第 ${progress.completed + 1} / ${progress.total} 段`}
+                {progress?.stage === 'merging' && "正在合并各段结果..."}
+                {progress?.stage === 'writing' && "AI 正在整理笔记并生成思维导图"}
+                {(!progress || (progress.stage === 'transforming' && progress.total <= 1)) && "AI 正在转录、改写并生成思维导图"}
+              </p>
+              {progress?.retry && (
+                <p className="text-amber-600 text-sm mt-2">
+                  {progress.retry.message}正在进行第 {progress.retry.attempt} 次重试...
+                </p>
+              )}
             </div>
+            {progress && progress.total > 1 && (
+              <div className="w-64 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-600 rounded-full transition-all duration-500"
+                  style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                ></div>
+              </div>
+            )}
+            {partial?.formalText && (
+              <div className="w-full bg-slate-50 rounded-2xl p-6 border border-slate-100 max-h-64 overflow-y-auto whitespace-pre-wrap text-slate-700 leading-relaxed italic">
+                {partial.formalText}
+                <span className="inline-block w-2 h-4 ml-1 align-middle bg-indigo-400 animate-pulse"></span>
+              </div>
+            )}
+            {partial?.mindMap?.children && (
+              <div className="w-full">
+                <MindMap data={partial.mindMap} layout={settings.mindMapLayout} />
+              </div>
+            )}
+            {partial?.originalTranscription && !partial.formalText && (
+              <p className="w-full text-slate-400 text-sm italic max-h-40 overflow-y-auto">{partial.originalTranscription}</p>
+            )}
+            <button
+              onClick={cancelProcessing}
+              className="px-6 py-2 bg-slate-100 text-slate-600 rounded-full hover:bg-slate-200 transition-colors flex items-center gap-2"
+            >
+              <i className="fa-solid fa-xmark"></i>
+              取消
+            </button>
           </div>
         );
 
@@ -161,23 +699,120 @@ const App: React.FC = () => {
                 </button>
               </div>
               
-              <button 
-                onClick={reset}
-                className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"
-              >
-                <i className="fa-solid fa-rotate-left"></i>
-                重新开始
-              </button>
+              <div className="flex flex-wrap items-center gap-4">
+                {viewMode === 'text' && result && <DocumentExportMenu result={result} layout={settings.mindMapLayout} />}
+                {viewMode === 'mindmap' && result?.mindMap && (
+                  <>
+                    {!sharedView && <ImportButton onImport={mergeImportedMap} label="导入合并" icon="fa-code-merge" />}
+                    <ExportMenu data={result.mindMap} layout={settings.mindMapLayout} />
+                  </>
+                )}
+                {!sharedView && (
+                  <>
+                    <button
+                      onClick={() => setShowRefine(!showRefine)}
+                      className={`transition-colors flex items-center gap-1 text-sm font-medium ${showRefine ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                      title="让 AI 按要求修改文本或思维导图"
+                    >
+                      <i className="fa-solid fa-wand-magic-sparkles"></i>
+                      修订{revisions.length > 1 ? `（${revisions.length - 1}）` : ''}
+                    </button>
+                    <button
+                      onClick={continueRecording}
+                      className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"
+                      title="录制新内容并合并到当前结果"
+                    >
+                      <i className="fa-solid fa-microphone"></i>
+                      继续录音
+                    </button>
+                  </>
+                )}
+                <button 
+                  onClick={reset}
+                  className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"
+                >
+                  <i className="fa-solid fa-rotate-left"></i>
+                  重新开始
+                </button>
+              </div>
             </div>
             
+            {sharedView && (
+              <div className="mb-6 rounded-xl border border-amber-100 bg-amber-50 p-4 flex flex-wrap items-center gap-3 text-sm text-amber-800">
+                <i className="fa-solid fa-eye"></i>
+                <span className="flex-1">这是通过链接分享的结果，仅供查看。</span>
+                <button
+                  onClick={keepSharedResult}
+                  className="text-xs font-semibold px-3 py-1 rounded-full bg-white border border-amber-200 text-amber-700 hover:bg-amber-100"
+                >
+                  保存到历史记录并编辑
+                </button>
+              </div>
+            )}
+
+            {outlinedOffline && (
+              <div className="mb-6 rounded-xl border border-amber-100 bg-amber-50 p-4 flex items-center gap-3 text-sm text-amber-800">
+                <i className="fa-solid fa-plug-circle-xmark"></i>
+                <span className="flex-1">模型暂不可用（未配置 API 密钥或处于离线状态），已按笔记的标题、列表和段落离线整理。</span>
+                <button onClick={() => setOutlinedOffline(false)} className="text-amber-500 hover:text-amber-700" title="关闭">
+                  <i className="fa-solid fa-xmark"></i>
+                </button>
+              </div>
+            )}
+
+            {result && syncBase && !sharedView && (
+              <SyncPanel
+                result={result}
+                base={syncBase}
+                onApply={(synced) => { editResult(synced); setSyncBase(synced); }}
+                onDismiss={() => setSyncBase(result)}
+              />
+            )}
+
+            {showRefine && result && !sharedView && (
+              <div className="mb-6">
+                <RefinementPanel
+                  result={result}
+                  revisions={revisions}
+                  busy={refining}
+                  error={refineError}
+                  onRefine={refineResult}
+                  onCancel={() => refineAbortRef.current?.abort()}
+                  onRevert={revertTo}
+                />
+              </div>
+            )}
+
             <div className="mb-8">
               {viewMode === 'text' ? (
-                <div className="bg-slate-50 rounded-2xl p-6 border border-slate-100 min-h-[350px] whitespace-pre-wrap text-slate-700 leading-relaxed italic md:text-lg">
-                  {result?.formalText}
-                </div>
+                result && (
+                  <FormalTextEditor
+                    text={result.formalText}
+                    onChange={sharedView ? undefined : (formalText) => editResult({
+                      ...result,
+                      formalText,
+                      paragraphSources: realignParagraphSources(result.formalText, result.paragraphSources, formalText)
+                    })}
+                    activeParagraph={highlight?.key.startsWith('p') ? Number(highlight.key.slice(1)) : null}
+                    onParagraphClick={result.segments ? (i) => showSources(`p${i}`, result.paragraphSources?.[i]) : undefined}
+                  />
+                )
               ) : (
                 <div className="min-h-[350px]">
-                  {result?.mindMap && <MindMap data={result.mindMap} />}
+                  {result?.mindMap && (
+                    <MindMap
+                      data={result.mindMap}
+                      onChange={sharedView ? undefined : (mindMap) => editResult({ ...result, mindMap })}
+                      onUndo={sharedView ? undefined : undoEdit}
+                      onRedo={sharedView ? undefined : redoEdit}
+                      canUndo={canUndo}
+                      canRedo={canRedo}
+                      layout={settings.mindMapLayout}
+                      onLayoutChange={(mindMapLayout) => updateSettings({ mindMapLayout })}
+                      onNodeActivate={result.segments ? (node) => showSources(`n${node.id}`, node.sources) : undefined}
+                      markUnsourced={!!result.segments}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -191,7 +826,7 @@ const App: React.FC = () => {
                 复制文本
               </button>
               <button 
-                onClick={() => downloadTextFile(result?.formalText || "", "formal-text.txt")}
+                onClick={downloadFormalText}
                 className="flex items-center justify-center gap-2 px-6 py-3 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-colors text-slate-700 font-semibold"
               >
                 <i className="fa-solid fa-download"></i>
@@ -207,8 +842,14 @@ const App: React.FC = () => {
             </div>
 
             <div className="mt-10 pt-10 border-t border-slate-100">
-              <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">原始转录内容</h4>
-              <p className="text-slate-400 text-sm italic">{result?.originalTranscription}</p>
+              <SourcePanel
+                transcription={result?.originalTranscription || ''}
+                segments={result?.segments}
+                highlight={highlight?.spans || null}
+                audio={audio}
+                speakers={result?.speakers}
+                onRenameSpeaker={sharedView ? undefined : renameSpeakerInResult}
+              />
             </div>
           </div>
         );
@@ -221,12 +862,24 @@ const App: React.FC = () => {
             </div>
             <h3 className="text-xl font-bold text-slate-800">出错了</h3>
             <p className="text-slate-500 mt-2 mb-8">{error}</p>
-            <button 
-              onClick={reset}
-              className="px-8 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors font-semibold"
-            >
-              重试一次
-            </button>
+            <div className="flex gap-3">
+              {failedRecording && (
+                <button
+                  onClick={retryFailedRecording}
+                  className="px-8 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors font-semibold"
+                >
+                  使用同一段音频重试
+                </button>
+              )}
+              <button 
+                onClick={reset}
+                className={failedRecording
+                  ? "px-8 py-3 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-colors font-semibold"
+                  : "px-8 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors font-semibold"}
+              >
+                {failedRecording ? '重新开始' : '重试一次'}
+              </button>
+            </div>
           </div>
         );
     }
@@ -234,7 +887,21 @@ const App: React.FC = () => {
 
   return (
     <Layout>
+      <QueueBanner
+        entries={queue.entries}
+        online={queue.online}
+        draining={queue.draining}
+        onRetryFailed={queue.retryFailed}
+        onDiscardFailed={queue.discardFailed}
+      />
       {renderContent()}
+      {paletteOpen && (
+        <CommandPalette
+          commands={commands}
+          onRun={(id) => commandHandlers[id]?.()}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,61 @@
+import React, { useState, useRef } from 'react';
+import { AUDIO_ACCEPT } from '../utils/audioFile';
+
+interface Props {
+  onFile: (file: File) => void;
+  children: React.ReactNode;
+}
+
+export const AudioDropZone: React.FC<Props> = ({ onFile, children }) => {
+  const [dragging, setDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // dragenter/dragleave also fire for every child element
+  const depth = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    depth.current = 0;
+    setDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      className="relative flex flex-col items-center"
+      onDragEnter={(e) => { if (!hasFiles(e)) return; e.preventDefault(); depth.current++; setDragging(true); }}
+      onDragOver={(e) => { if (hasFiles(e)) e.preventDefault(); }}
+      onDragLeave={() => { depth.current = Math.max(0, depth.current - 1); if (depth.current === 0) setDragging(false); }}
+      onDrop={handleDrop}
+    >
+      {children}
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="mt-4 text-sm text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 font-medium"
+      >
+        <i className="fa-solid fa-file-audio"></i>
+        上传音频文件
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={AUDIO_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onFile(file);
+        }}
+      />
+      {dragging && (
+        <div className="absolute inset-0 -m-4 flex flex-col items-center justify-center bg-indigo-50/95 border-2 border-dashed border-indigo-300 rounded-2xl text-indigo-600 pointer-events-none">
+          <i className="fa-solid fa-cloud-arrow-up text-4xl mb-3"></i>
+          <p className="font-semibold">松开以上传音频</p>
+          <p className="text-xs text-indigo-400 mt-1">支持 webm、ogg、mp3、wav、m4a</p>
+        </div>
+      )}
+    </div>
+  );
+};
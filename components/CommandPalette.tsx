@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CommandId, CommandSpec, shortcutLabel } from '../utils/commands';
+
+interface Props {
+  commands: CommandSpec[];
+  onRun: (id: CommandId) => void;
+  onClose: () => void;
+}
+
+// Lists what can be done on the current screen, filtered as you type
+export const CommandPalette: React.FC<Props> = ({ commands, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const q = query.trim().toLowerCase();
+  const visible = commands.filter(c => c.id !== 'palette.open' && (!q || c.label.toLowerCase().includes(q) || c.id.includes(q)));
+  const current = Math.min(active, visible.length - 1);
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[current]?.scrollIntoView({ block: 'nearest' });
+  }, [current]);
+
+  const run = (id: CommandId) => {
+    onClose();
+    onRun(id);
+  };
+
+  // Keys stay in the palette so they do not reach the shortcuts behind it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape' || (e.code === 'KeyK' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (visible.length) setActive((current + (e.key === 'ArrowDown' ? 1 : visible.length - 1)) % visible.length);
+    } else if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      if (visible[current]) run(visible[current].id);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-slate-900/20 flex items-start justify-center pt-[15vh] px-4"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="命令面板"
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden animate-in fade-in duration-150"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-slate-100">
+          <i className="fa-solid fa-magnifying-glass text-slate-300"></i>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="输入命令名称…"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={visible[current] ? `command-${visible[current].id}` : undefined}
+            className="flex-1 py-3 text-sm text-slate-700 focus:outline-none"
+          />
+        </div>
+        <ul id="command-palette-list" ref={listRef} role="listbox" className="max-h-80 overflow-y-auto py-1">
+          {visible.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm text-slate-400">没有可用的命令</li>
+          )}
+          {visible.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={i === current}
+              onMouseMove={() => setActive(i)}
+              onClick={() => run(command.id)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${i === current ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600'}`}
+            >
+              <i className={`fa-solid ${command.icon} w-4 text-center`}></i>
+              <span className="flex-1">{command.label}</span>
+              {command.shortcut && (
+                <kbd className="text-xs font-mono text-slate-400 bg-slate-50 border border-slate-200 rounded px-1.5 py-0.5">
+                  {shortcutLabel(command.shortcut)}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
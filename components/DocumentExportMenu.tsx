@@ -0,0 +1,81 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { TransformationResult } from '../types';
+import { DocumentExportFormat, exportDocument, printDocument } from '../utils/documentExport';
+import { MindMapLayoutMode } from '../utils/mindMapLayout';
+import { downloadBlob } from '../utils/audioUtils';
+
+interface Props {
+  result: TransformationResult;
+  // The map image is drawn in this layout
+  layout?: MindMapLayoutMode;
+}
+
+const FORMATS: { id: DocumentExportFormat; label: string; icon: string }[] = [
+  { id: 'docx', label: 'Word (.docx)', icon: 'fa-file-word' },
+  { id: 'pdf', label: 'PDF（打印）', icon: 'fa-file-pdf' },
+  { id: 'html', label: 'HTML 网页', icon: 'fa-file-code' },
+  { id: 'snapshot', label: '交互式 HTML 快照', icon: 'fa-diagram-project' },
+  { id: 'markdown', label: 'Markdown', icon: 'fa-file-lines' }
+];
+
+// Exports the formal text together with the mind map image
+export const DocumentExportMenu: React.FC<Props> = ({ result, layout }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleExport = async (format: DocumentExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      if (format === 'pdf') {
+        await printDocument(result, layout);
+      } else {
+        const { blob, filename } = await exportDocument(result, format, layout);
+        downloadBlob(blob, filename);
+      }
+    } catch (err: any) {
+      console.error("导出失败", err);
+      alert(err.message || "导出失败。");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={busy}
+        className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium disabled:opacity-50"
+      >
+        <i className={`fa-solid ${busy ? 'fa-spinner fa-spin' : 'fa-file-export'}`}></i>
+        导出文档
+      </button>
+      {open && (
+        <ul className="absolute right-0 mt-2 w-52 bg-white border border-slate-100 rounded-xl shadow-lg py-1 z-20">
+          {FORMATS.map(f => (
+            <li key={f.id}>
+              <button
+                onClick={() => handleExport(f.id)}
+                className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 hover:text-indigo-600 flex items-center gap-2"
+              >
+                <i className={`fa-solid ${f.icon} w-4 text-slate-400`}></i>
+                {f.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MindMapNode } from '../types';
+import { MindMapExportFormat, exportMindMap } from '../utils/mindMapExport';
+import { MindMapLayoutMode } from '../utils/mindMapLayout';
+import { downloadBlob } from '../utils/audioUtils';
+
+interface Props {
+  data: MindMapNode;
+  // Image formats are drawn in this layout
+  layout?: MindMapLayoutMode;
+}
+
+const FORMATS: { id: MindMapExportFormat; label: string; icon: string }[] = [
+  { id: 'png', label: 'PNG 图片', icon: 'fa-image' },
+  { id: 'svg', label: 'SVG 矢量图', icon: 'fa-bezier-curve' },
+  { id: 'markdown', label: 'Markdown 大纲', icon: 'fa-list-ul' },
+  { id: 'opml', label: 'OPML', icon: 'fa-sitemap' },
+  { id: 'freemind', label: 'FreeMind (.mm)', icon: 'fa-diagram-project' },
+  { id: 'xmind', label: 'XMind (.xmind)', icon: 'fa-file-zipper' }
+];
+
+export const ExportMenu: React.FC<Props> = ({ data, layout }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleExport = async (format: MindMapExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      const { blob, filename } = await exportMindMap(data, format, layout);
+      downloadBlob(blob, filename);
+    } catch (err: any) {
+      console.error("导出失败", err);
+      alert(err.message || "导出失败。");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={busy}
+        className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium disabled:opacity-50"
+      >
+        <i className={`fa-solid ${busy ? 'fa-spinner fa-spin' : 'fa-file-export'}`}></i>
+        导出导图
+      </button>
+      {open && (
+        <ul className="absolute right-0 mt-2 w-48 bg-white border border-slate-100 rounded-xl shadow-lg py-1 z-20">
+          {FORMATS.map(f => (
+            <li key={f.id}>
+              <button
+                onClick={() => handleExport(f.id)}
+                className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 hover:text-indigo-600 flex items-center gap-2"
+              >
+                <i className={`fa-solid ${f.icon} w-4 text-slate-400`}></i>
+                {f.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
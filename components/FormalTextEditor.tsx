@@ -0,0 +1,88 @@
+import React, { useRef, useEffect } from 'react';
+import { htmlToMarkdown, markdownToHtml } from '../utils/markdown';
+
+interface Props {
+  text: string;
+  // Editing is enabled when a change handler is provided
+  onChange?: (text: string) => void;
+  // Paragraph whose sources are shown, highlighted in the editor
+  activeParagraph?: number | null;
+  onParagraphClick?: (index: number) => void;
+}
+
+const TOOLS: { command: string; value?: string; icon?: string; label?: string; title: string }[] = [
+  { command: 'formatBlock', value: 'h2', label: 'H2', title: '二级标题' },
+  { command: 'formatBlock', value: 'h3', label: 'H3', title: '三级标题' },
+  { command: 'formatBlock', value: 'p', icon: 'fa-paragraph', title: '正文' },
+  { command: 'insertUnorderedList', icon: 'fa-list-ul', title: '项目符号列表' },
+  { command: 'insertOrderedList', icon: 'fa-list-ol', title: '编号列表' },
+  { command: 'bold', icon: 'fa-bold', title: '加粗' },
+  { command: 'italic', icon: 'fa-italic', title: '斜体' }
+];
+
+// Rich-text view of the Markdown formal text. The browser edits the HTML in
+// place; it is read back into Markdown when the editor loses focus.
+export const FormalTextEditor: React.FC<Props> = ({ text, onChange, activeParagraph, onParagraphClick }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const dirtyRef = useRef(false);
+
+  // Re-render from the text unless the user is in the middle of editing it
+  useEffect(() => {
+    if (editorRef.current && !dirtyRef.current) editorRef.current.innerHTML = markdownToHtml(text, true);
+  }, [text]);
+
+  useEffect(() => {
+    editorRef.current?.querySelectorAll('[data-paragraph]').forEach(el => {
+      el.classList.toggle('bg-amber-50', Number((el as HTMLElement).dataset.paragraph) === activeParagraph);
+    });
+  }, [activeParagraph, text]);
+
+  const commit = () => {
+    if (!editorRef.current || !dirtyRef.current) return;
+    dirtyRef.current = false;
+    const next = htmlToMarkdown(editorRef.current);
+    if (next !== text.trim()) onChange?.(next);
+    else editorRef.current.innerHTML = markdownToHtml(text, true);
+  };
+
+  const apply = (command: string, value?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, value);
+    dirtyRef.current = true;
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const block = (e.target as HTMLElement).closest('[data-paragraph]') as HTMLElement | null;
+    if (block && onParagraphClick) onParagraphClick(Number(block.dataset.paragraph));
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-2xl border border-slate-100 min-h-[350px]">
+      {onChange && (
+        <div className="flex flex-wrap gap-1 px-4 py-2 border-b border-slate-100">
+          {TOOLS.map(tool => (
+            <button
+              key={`${tool.command}-${tool.value || ''}`}
+              // Keep the selection in the editor
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => apply(tool.command, tool.value)}
+              className="w-8 h-8 rounded-lg text-slate-500 hover:bg-white hover:text-indigo-600 text-xs font-bold"
+              title={tool.title}
+            >
+              {tool.icon ? <i className={`fa-solid ${tool.icon}`}></i> : tool.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div
+        ref={editorRef}
+        contentEditable={!!onChange}
+        suppressContentEditableWarning
+        onInput={() => { dirtyRef.current = true; }}
+        onBlur={commit}
+        onClick={handleClick}
+        className="p-6 text-slate-700 leading-relaxed md:text-lg focus:outline-none [&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-bold [&_h3]:text-lg [&_h3]:font-bold [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&>*]:mb-4 [&>*]:rounded-lg [&>*]:-mx-2 [&>*]:px-2 [&>*]:transition-colors"
+      ></div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { HistoryEntry } from '../types';
+import {
+  StorageUsage,
+  deleteHistoryEntry,
+  enforceHistoryQuota,
+  getStorageUsage,
+  listHistoryEntries,
+  renameHistoryEntry,
+  searchHistoryEntries
+} from '../services/historyStore';
+
+interface Props {
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+export const HistoryPanel: React.FC<Props> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // The entry being renamed, read and cleared at once so that Enter and the
+  // blur that follows it commit only once
+  const renamingRef = useRef<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setUsage(await getStorageUsage());
+    } catch (err) {
+      console.error("读取历史记录失败", err);
+      setError("无法读取本地历史记录。");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const visible = useMemo(() => searchHistoryEntries(entries, query), [entries, query]);
+
+  const startRename = (entry: HistoryEntry) => {
+    renamingRef.current = entry.id;
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+  };
+
+  const cancelRename = () => {
+    renamingRef.current = null;
+    setEditingId(null);
+  };
+
+  const commitRename = async () => {
+    const id = renamingRef.current;
+    if (!id || id !== editingId) return;
+    cancelRename();
+    setError(null);
+    try {
+      await renameHistoryEntry(id, draftTitle);
+    } catch (err) {
+      console.error("重命名历史记录失败", err);
+      setError("无法重命名该记录。");
+    }
+    refresh();
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`确定删除“${entry.title}”吗？`)) return;
+    setError(null);
+    try {
+      await deleteHistoryEntry(entry.id);
+    } catch (err) {
+      console.error("删除历史记录失败", err);
+      setError("无法删除该记录。");
+    }
+    refresh();
+  };
+
+  const handleCleanup = async () => {
+    setError(null);
+    try {
+      const removed = await enforceHistoryQuota();
+      alert(removed > 0 ? `已清理 ${removed} 条最早的记录。` : "存储空间充足，无需清理。");
+    } catch (err) {
+      console.error("清理历史记录失败", err);
+      setError("无法清理存储空间。");
+    }
+    refresh();
+  };
+
+  return (
+    <div className="animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-slate-800">历史记录</h3>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"
+        >
+          <i className="fa-solid fa-arrow-left"></i>
+          返回
+        </button>
+      </div>
+
+      <div className="relative mb-4">
+        <i className="fa-solid fa-magnifying-glass absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-sm"></i>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索标题或内容"
+          className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-indigo-300"
+        />
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+
+      <ul className="space-y-2 max-h-[420px] overflow-y-auto">
+        {visible.length === 0 && (
+          <li className="text-center text-slate-400 text-sm py-10">
+            {entries.length === 0 ? "暂无历史记录" : "没有匹配的记录"}
+          </li>
+        )}
+        {visible.map(entry => (
+          <li
+            key={entry.id}
+            className="flex items-center gap-3 p-3 bg-white border border-slate-100 rounded-xl hover:border-indigo-200 transition-colors"
+          >
+            <div className="flex-1 min-w-0">
+              {editingId === entry.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') cancelRename();
+                  }}
+                  className="w-full px-2 py-1 border border-indigo-300 rounded-lg text-sm focus:outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpen(entry)} className="block w-full text-left">
+                  <span className="block font-semibold text-slate-700 truncate">{entry.title}</span>
+                  <span className="block text-xs text-slate-400 mt-0.5">
+                    {new Date(entry.createdAt).toLocaleString()} · {formatDuration(entry.duration)}
+                  </span>
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => startRename(entry)}
+              className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"
+              title="重命名"
+            >
+              <i className="fa-solid fa-pen"></i>
+            </button>
+            <button
+              onClick={() => handleDelete(entry)}
+              className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+              title="删除"
+            >
+              <i className="fa-solid fa-trash"></i>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {usage && (
+        <div className="mt-6 pt-4 border-t border-slate-100 flex items-center justify-between text-xs text-slate-400">
+          <span>
+            {usage.entries} 条记录 · {formatBytes(usage.bytes)}
+            {usage.quota ? ` · 浏览器配额已用 ${Math.round(((usage.usage || 0) / usage.quota) * 100)}%` : ''}
+          </span>
+          <button onClick={handleCleanup} className="hover:text-indigo-600 transition-colors font-medium">
+            <i className="fa-solid fa-broom mr-1"></i>
+            清理空间
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
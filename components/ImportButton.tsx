@@ -0,0 +1,39 @@
+import React, { useRef } from 'react';
+import { MindMapNode } from '../types';
+import { IMPORT_ACCEPT, importMindMap } from '../utils/mindMapImport';
+
+interface Props {
+  onImport: (tree: MindMapNode, fileName: string) => void;
+  label: string;
+  icon?: string;
+  className?: string;
+}
+
+export const ImportButton: React.FC<Props> = ({ onImport, label, icon = 'fa-file-import', className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(await importMindMap(file), file.name);
+    } catch (err: any) {
+      console.error("导入失败", err);
+      alert(err.message || "导入失败。");
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className={className || "text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"}
+      >
+        <i className={`fa-solid ${icon}`}></i>
+        {label}
+      </button>
+      <input ref={inputRef} type="file" accept={IMPORT_ACCEPT} onChange={handleChange} className="hidden" />
+    </>
+  );
+};
@@ -1,100 +1,232 @@
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useId } from 'react';
 import { MindMapNode } from '../types';
+import { Direction, LAYOUT_MODES, LayoutNode, MIND_MAP_LAYOUT, MindMapLayoutMode, countNodes, edgePath, idsBelowDepth, layoutBounds, layoutMindMap, nearestNode } from '../utils/mindMapLayout';
+import { NodePatch, addChild, addSibling, assignIds, findNode, findParent, moveNode, pathTo, removeNode, renameNode, searchNodes, updateNode } from '../utils/mindMapTree';
+import { NODE_COLORS, NODE_ICONS, NODE_PRIORITIES, NODE_STATUSES, branchColors } from '../utils/nodeStyle';
+import { NodePropertiesPanel } from './NodePropertiesPanel';
 
 interface Props {
   data: MindMapNode;
+  // Editing is enabled when a change handler is provided
+  onChange?: (data: MindMapNode) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  layout?: MindMapLayoutMode;
+  // The layout switcher is shown when a handler is provided
+  onLayoutChange?: (layout: MindMapLayoutMode) => void;
+  // Called with the clicked node, e.g. to show its sources
+  onNodeActivate?: (node: MindMapNode) => void;
+  // Flags nodes that cite no part of the transcript
+  markUnsourced?: boolean;
 }
 
-interface LayoutNode {
+type DropPosition = 'before' | 'inside' | 'after';
+
+interface DragState {
   id: string;
-  label: string;
-  x: number;
-  y: number;
-  px?: number;
-  py?: number;
-  hasChildren: boolean;
-  isCollapsed: boolean;
+  startX: number;
+  startY: number;
+  active: boolean;
+  target?: { id: string; position: DropPosition };
 }
 
-export const MindMap: React.FC<Props> = ({ data }) => {
+// View changes that have to wait until the next layout has been computed
+type ViewRequest = { type: 'fit' } | { type: 'center'; id: string };
+
+const DRAG_THRESHOLD = 5;
+// Large maps open with only the first levels expanded
+const AUTO_COLLAPSE_NODES = 150;
+const AUTO_COLLAPSE_DEPTH = 2;
+// Extra margin (in screen pixels) rendered around the viewport while panning
+const CULL_MARGIN = 200;
+const INITIAL_SCALE = 0.8;
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 5;
+// Fitting never zooms in further than this, so small maps keep readable proportions
+const MAX_FIT_SCALE = 1.2;
+const FIT_PADDING = 40;
+const KEY_ZOOM = 1.2;
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+// Where the root node's centre starts out, as a fraction of the viewport
+const ROOT_ANCHOR: Record<MindMapLayoutMode, { x: number; y: number }> = {
+  right: { x: 0.15, y: 0.5 },
+  balanced: { x: 0.5, y: 0.5 },
+  topDown: { x: 0.5, y: 0.15 },
+  radial: { x: 0.5, y: 0.5 },
+  fishbone: { x: 0.85, y: 0.5 }
+};
+const TRANSITION = 'transform 0.35s ease, d 0.35s ease';
+
+const clampScale = (scale: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+export const MindMap: React.FC<Props> = ({ data, onChange, onUndo, onRedo, canUndo, canRedo, layout: layoutProp, onLayoutChange, onNodeActivate, markUnsourced }) => {
+  const layoutMode: MindMapLayoutMode = layoutProp || 'right';
   const svgRef = useRef<SVGSVGElement>(null);
-  const [transform, setTransform] = useState({ x: 50, y: 150, scale: 0.8 });
-  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [transform, setTransform] = useState({ x: 50, y: 150, scale: INITIAL_SCALE });
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => {
+    const tree = assignIds(data);
+    return countNodes(tree) > AUTO_COLLAPSE_NODES ? idsBelowDepth(tree, AUTO_COLLAPSE_DEPTH) : new Set();
+  });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Root of the subtree being drilled into
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [viewRequest, setViewRequest] = useState<ViewRequest | null>(null);
+  const [showProperties, setShowProperties] = useState(false);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const domId = useId();
+  const editable = !!onChange;
   
   const pointerCache = useRef<Map<number, PointerEvent>>(new Map());
   const lastDist = useRef<number | null>(null);
   const lastPoint = useRef<{ x: number, y: number } | null>(null);
 
-  // Layout constants
-  const nodeWidth = 160;
-  const nodeHeight = 50;
-  const verticalGap = 30;
-  const horizontalGap = 200;
-
-  // Assign IDs to nodes if they don't have them (using path for uniqueness)
-  const dataWithIds = useMemo(() => {
-    const addId = (node: MindMapNode, path: string): MindMapNode => ({
-      ...node,
-      id: path,
-      children: node.children?.map((c, i) => addId(c, `${path}-${i}`))
-    });
-    return addId(data, 'root');
-  }, [data]);
+  const { siblingGap } = MIND_MAP_LAYOUT;
+
+  // Assign IDs to nodes if they don't have them (edits are keyed by these)
+  const dataWithIds = useMemo(() => assignIds(data), [data]);
+
+  const nodesById = useMemo(() => {
+    const byId = new Map<string, MindMapNode>();
+    const visit = (node: MindMapNode) => {
+      byId.set(node.id!, node);
+      node.children?.forEach(visit);
+    };
+    visit(dataWithIds);
+    return byId;
+  }, [dataWithIds]);
+  // Computed on the whole map so that focus mode keeps the colours
+  const colors = useMemo(() => branchColors(dataWithIds), [dataWithIds]);
+  const selectedNode = selectedId ? nodesById.get(selectedId) : undefined;
+
+  // In focus mode the subtree is laid out as if it were the whole map
+  const viewRoot = useMemo(() => (focusId && findNode(dataWithIds, focusId)) || dataWithIds, [dataWithIds, focusId]);
+  const focusPath = useMemo(() => (focusId ? pathTo(dataWithIds, focusId) : []), [dataWithIds, focusId]);
+
+  // Leave focus mode when the focused node is deleted
+  useEffect(() => {
+    if (focusId && focusPath.length === 0) setFocusId(null);
+  }, [focusId, focusPath]);
 
   // Hierarchical layout that respects collapsed state
-  const nodes = useMemo(() => {
-    const flat: LayoutNode[] = [];
-    
-    const calculatePositions = (node: MindMapNode, depth: number, yOffset: { val: number }) => {
-      const id = node.id!;
-      const isCollapsed = collapsedIds.has(id);
-      const hasChildren = !!(node.children && node.children.length > 0);
-      
-      const current = {
-        id,
-        label: node.label,
-        x: depth * horizontalGap,
-        y: 0,
-        hasChildren,
-        isCollapsed,
-        childrenNodes: [] as any[]
-      };
-
-      if (!hasChildren || isCollapsed) {
-        current.y = yOffset.val;
-        yOffset.val += nodeHeight + verticalGap;
-      } else {
-        const startY = yOffset.val;
-        node.children!.forEach(child => {
-          current.childrenNodes.push(calculatePositions(child, depth + 1, yOffset));
-        });
-        const endY = yOffset.val - (nodeHeight + verticalGap);
-        current.y = (startY + endY) / 2;
-      }
-      return current;
+  const layout = useMemo(() => layoutMindMap(viewRoot, collapsedIds, layoutMode), [viewRoot, collapsedIds, layoutMode]);
+  const nodes = layout.nodes;
+  const matches = useMemo(() => searchNodes(dataWithIds, query), [dataWithIds, query]);
+  const matchIds = useMemo(() => new Set(matches), [matches]);
+  const currentMatch = matches.length > 0 ? matches[matchIndex % matches.length] : null;
+
+  // Position among siblings, for screen readers
+  const siblingInfo = useMemo(() => {
+    const info = new Map<string, { position: number; count: number }>();
+    const visit = (node: MindMapNode) => node.children?.forEach((child, i) => {
+      info.set(child.id!, { position: i + 1, count: node.children!.length });
+      visit(child);
+    });
+    visit(viewRoot);
+    return info;
+  }, [viewRoot]);
+  const unsourcedIds = useMemo(() => {
+    const ids = new Set<string>();
+    if (!markUnsourced) return ids;
+    const visit = (node: MindMapNode) => {
+      if (!node.sources?.length) ids.add(node.id!);
+      node.children?.forEach(visit);
     };
+    visit(dataWithIds);
+    return ids;
+  }, [dataWithIds, markUnsourced]);
+  const maxDepth = useMemo(() => nodes.reduce((max, n) => Math.max(max, n.depth), 0), [nodes]);
 
-    const tree = calculatePositions(dataWithIds, 0, { val: 0 });
-
-    const flatten = (n: any, px?: number, py?: number) => {
-      flat.push({ 
-        id: n.id, 
-        label: n.label, 
-        x: n.x, 
-        y: n.y, 
-        px, 
-        py, 
-        hasChildren: n.hasChildren, 
-        isCollapsed: n.isCollapsed 
-      });
-      if (!n.isCollapsed) {
-        n.childrenNodes.forEach((c: any) => flatten(c, n.x + nodeWidth, n.y + nodeHeight / 2));
-      }
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const rootTransform = (scale: number) => {
+    const root = nodes[0];
+    const anchor = ROOT_ANCHOR[layoutMode];
+    return {
+      x: viewport.width * anchor.x - (root.x + root.width / 2) * scale,
+      y: viewport.height * anchor.y - (root.y + root.height / 2) * scale,
+      scale
+    };
+  };
+
+  // Scales and centres the whole layout into the viewport
+  const fitTransform = () => {
+    const bounds = layoutBounds(layout);
+    const scale = clampScale(Math.min(
+      (viewport.width - FIT_PADDING * 2) / bounds.width,
+      (viewport.height - FIT_PADDING * 2) / bounds.height,
+      MAX_FIT_SCALE
+    ));
+    return {
+      x: (viewport.width - bounds.width * scale) / 2 - bounds.minX * scale,
+      y: (viewport.height - bounds.height * scale) / 2 - bounds.minY * scale,
+      scale
     };
-    flatten(tree);
-    return flat;
-  }, [dataWithIds, collapsedIds]);
+  };
+
+  const centerTransform = (node: LayoutNode, scale: number) => ({
+    x: viewport.width / 2 - (node.x + node.width / 2) * scale,
+    y: viewport.height / 2 - (node.y + node.height / 2) * scale,
+    scale
+  });
+
+  // Re-anchor the root once the viewport is known and whenever the layout changes
+  const hasViewport = viewport.width > 0;
+  useEffect(() => {
+    if (hasViewport) setTransform(t => rootTransform(t.scale));
+  }, [layoutMode, hasViewport]);
+
+  useEffect(() => {
+    if (!viewRequest || !hasViewport) return;
+    if (viewRequest.type === 'fit') {
+      setTransform(fitTransform());
+    } else {
+      const node = nodes.find(n => n.id === viewRequest.id);
+      if (node) setTransform(t => centerTransform(node, t.scale));
+    }
+    setViewRequest(null);
+  }, [viewRequest, layout, hasViewport]);
+
+  // Only nodes (and edges) that intersect the visible area are rendered, which
+  // keeps maps with hundreds of nodes responsive
+  const visibleNodes = useMemo(() => {
+    if (viewport.width === 0) return nodes;
+    const left = (-CULL_MARGIN - transform.x) / transform.scale;
+    const top = (-CULL_MARGIN - transform.y) / transform.scale;
+    const right = (viewport.width + CULL_MARGIN - transform.x) / transform.scale;
+    const bottom = (viewport.height + CULL_MARGIN - transform.y) / transform.scale;
+    return nodes.filter(n => {
+      const xs = [n.x, n.x + n.width];
+      const ys = [n.y, n.y + n.height];
+      if (n.edge) {
+        xs.push(n.edge.from.x);
+        ys.push(n.edge.from.y);
+      }
+      return Math.min(...xs) <= right && Math.max(...xs) >= left && Math.min(...ys) <= bottom && Math.max(...ys) >= top;
+    });
+  }, [nodes, transform, viewport]);
 
   const toggleNode = (id: string) => {
     setCollapsedIds(prev => {
@@ -105,9 +237,258 @@ export const MindMap: React.FC<Props> = ({ data }) => {
     });
   };
 
+  const commit = (next: MindMapNode) => {
+    if (onChange && next !== dataWithIds) onChange(next);
+  };
+
+  const startEditing = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (!node) return;
+    setSelectedId(id);
+    setEditingId(id);
+    setDraftLabel(node.label);
+  };
+
+  const updateSelected = (patch: NodePatch) => {
+    if (selectedId) commit(updateNode(dataWithIds, selectedId, patch));
+  };
+
+  const finishEditing = (save: boolean) => {
+    if (editingId && save) commit(renameNode(dataWithIds, editingId, draftLabel));
+    setEditingId(null);
+  };
+
+  const expand = (id: string) => {
+    setCollapsedIds(prev => {
+      if (!prev.has(id)) return prev;
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const handleAddChild = () => {
+    if (!selectedId) return;
+    const { tree, id } = addChild(dataWithIds, selectedId);
+    expand(selectedId);
+    commit(tree);
+    startEditingNew(id);
+  };
+
+  const handleAddSibling = () => {
+    if (!selectedId) return;
+    const { tree, id } = addSibling(dataWithIds, selectedId);
+    commit(tree);
+    startEditingNew(id);
+  };
+
+  // The new node only shows up in `nodes` after the parent re-renders with the new data
+  const startEditingNew = (id: string) => {
+    setSelectedId(id);
+    setEditingId(id);
+    setDraftLabel('新节点');
+  };
+
+  const handleDelete = () => {
+    if (!selectedId || selectedId === dataWithIds.id) return;
+    const parent = findParent(dataWithIds, selectedId);
+    commit(removeNode(dataWithIds, selectedId));
+    setSelectedId(parent?.id || null);
+  };
+
+  // Expands the ancestors of a node, selects it and brings it into view
+  const reveal = (id: string) => {
+    const path = pathTo(dataWithIds, id);
+    if (path.length === 0) return;
+    if (focusId && !path.some(n => n.id === focusId)) setFocusId(null);
+    setCollapsedIds(prev => {
+      const closed = path.slice(0, -1).filter(n => prev.has(n.id!));
+      if (closed.length === 0) return prev;
+      const next = new Set(prev);
+      closed.forEach(n => next.delete(n.id!));
+      return next;
+    });
+    setSelectedId(id);
+    setViewRequest({ type: 'center', id });
+  };
+
+  const focusOn = (id: string) => {
+    setFocusId(id === dataWithIds.id ? null : id);
+    expand(id);
+    setSelectedId(id);
+    setViewRequest({ type: 'fit' });
+  };
+
+  const zoomBy = (factor: number) => {
+    setTransform(t => {
+      const scale = clampScale(t.scale * factor);
+      const cx = viewport.width / 2;
+      const cy = viewport.height / 2;
+      return { x: cx - ((cx - t.x) * scale) / t.scale, y: cy - ((cy - t.y) * scale) / t.scale, scale };
+    });
+  };
+
+  // Pans to a node only when it is (partly) outside the viewport
+  const keepInView = (node: LayoutNode) => {
+    const left = node.x * transform.scale + transform.x;
+    const top = node.y * transform.scale + transform.y;
+    const right = left + node.width * transform.scale;
+    const bottom = top + node.height * transform.scale;
+    if (left < 0 || top < 0 || right > viewport.width || bottom > viewport.height) {
+      setTransform(centerTransform(node, transform.scale));
+    }
+  };
+
+  const moveSelection = (direction: Direction) => {
+    const from = nodes.find(n => n.id === selectedId);
+    const next = from ? nearestNode(nodes, from, direction) : nodes[0];
+    if (!next) return;
+    setSelectedId(next.id);
+    keepInView(next);
+  };
+
+  const showMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setMatchIndex(wrapped);
+    reveal(matches[wrapped]);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setQuery(value);
+    setMatchIndex(0);
+    const found = searchNodes(dataWithIds, value);
+    if (found.length > 0) reveal(found[0]);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      showMatch(matchIndex + (e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      svgRef.current?.focus();
+    }
+  };
+
+  const activateNode = (id: string) => {
+    const source = findNode(dataWithIds, id);
+    if (source) onNodeActivate?.(source);
+  };
+
+  // Bound to the tree itself: keys pressed on the toolbar, the search field or
+  // a label being renamed keep their usual meaning, and Tab always moves on
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (editingId || e.target !== e.currentTarget) return;
+    const mod = e.ctrlKey || e.metaKey;
+    const selected = nodes.find(n => n.id === selectedId);
+    if (editable && mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) onRedo?.();
+      else onUndo?.();
+    } else if (editable && mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      onRedo?.();
+    } else if (editable && selected && mod && e.key === 'Enter') {
+      e.preventDefault();
+      handleAddChild();
+    } else if (mod || e.altKey) {
+      return;
+    } else if (ARROW_DIRECTIONS[e.key]) {
+      e.preventDefault();
+      moveSelection(ARROW_DIRECTIONS[e.key]);
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      zoomBy(KEY_ZOOM);
+    } else if (e.key === '-' || e.key === '_') {
+      e.preventDefault();
+      zoomBy(1 / KEY_ZOOM);
+    } else if (e.key === '0') {
+      e.preventDefault();
+      setViewRequest({ type: 'fit' });
+    } else if (e.key === '/') {
+      e.preventDefault();
+      searchRef.current?.focus();
+    } else if (e.key === 'Home') {
+      e.preventDefault();
+      setSelectedId(nodes[0].id);
+      keepInView(nodes[0]);
+    } else if (e.key === 'Escape') {
+      if (focusId) focusOn(dataWithIds.id!);
+      else setSelectedId(null);
+    } else if (!selected) {
+      return;
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (selected.hasChildren) toggleNode(selected.id);
+      activateNode(selected.id);
+    } else if (e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      focusOn(selected.id);
+    } else if (!editable) {
+      return;
+    } else if (e.key === 'Insert') {
+      e.preventDefault();
+      handleAddChild();
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      handleDelete();
+    } else if (e.key === 'F2') {
+      e.preventDefault();
+      startEditing(selectedId);
+    }
+  };
+
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - transform.x) / transform.scale,
+      y: (clientY - rect.top - transform.y) / transform.scale
+    };
+  };
+
+  const findDropTarget = (clientX: number, clientY: number, dragId: string): DragState['target'] => {
+    const p = toMapPoint(clientX, clientY);
+    const hit = nodes.find(n => p.x >= n.x && p.x <= n.x + n.width && p.y >= n.y && p.y <= n.y + n.height);
+    if (!hit || hit.id === dragId) return undefined;
+    // Before/after follow the direction in which siblings are laid out
+    const rel = layout.siblingAxis === 'x' ? (p.x - hit.x) / hit.width : (p.y - hit.y) / hit.height;
+    // The root has no siblings, so anything dropped on it becomes a child
+    if (hit.id === dataWithIds.id) return { id: hit.id, position: 'inside' };
+    return { id: hit.id, position: rel < 0.25 ? 'before' : rel > 0.75 ? 'after' : 'inside' };
+  };
+
+  const applyDrop = (dragId: string, target: NonNullable<DragState['target']>) => {
+    if (target.position === 'inside') {
+      expand(target.id);
+      commit(moveNode(dataWithIds, dragId, target.id));
+      return;
+    }
+    const parent = findParent(dataWithIds, target.id);
+    if (!parent) return;
+    const index = parent.children!.findIndex(c => c.id === target.id) + (target.position === 'after' ? 1 : 0);
+    commit(moveNode(dataWithIds, dragId, parent.id!, index));
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, id: string) => {
+    if (editingId === id) return;
+    setSelectedId(id);
+    // Read-only maps pan when dragged from a node
+    if (!editable) return;
+    e.stopPropagation();
+    if (id === dataWithIds.id) return;
+    setDrag({ id, startX: e.clientX, startY: e.clientY, active: false });
+  };
+
   const resetView = () => {
-    setTransform({ x: 50, y: 150, scale: 0.8 });
     setCollapsedIds(new Set());
+    setFocusId(null);
+    setViewRequest({ type: 'fit' });
+  };
+
+  const collapseToDepth = (depth: number) => {
+    setCollapsedIds(idsBelowDepth(dataWithIds, depth));
   };
 
   // Interaction handlers
@@ -118,6 +499,13 @@ export const MindMap: React.FC<Props> = ({ data }) => {
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag) {
+      const moved = Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > DRAG_THRESHOLD;
+      if (drag.active || moved) {
+        setDrag({ ...drag, active: true, target: findDropTarget(e.clientX, e.clientY, drag.id) });
+      }
+      return;
+    }
     pointerCache.current.set(e.pointerId, e.nativeEvent);
     const pointers = Array.from(pointerCache.current.values());
 
@@ -132,13 +520,18 @@ export const MindMap: React.FC<Props> = ({ data }) => {
       const dist = Math.sqrt(Math.pow(p2.clientX - p1.clientX, 2) + Math.pow(p2.clientY - p1.clientY, 2));
       if (lastDist.current !== null) {
         const delta = dist / lastDist.current;
-        setTransform(t => ({ ...t, scale: Math.max(0.1, Math.min(5, t.scale * delta)) }));
+        setTransform(t => ({ ...t, scale: clampScale(t.scale * delta) }));
       }
       lastDist.current = dist;
     }
   };
 
   const handlePointerUp = (e: React.PointerEvent) => {
+    if (drag) {
+      if (drag.active && drag.target) applyDrop(drag.id, drag.target);
+      setDrag(null);
+      return;
+    }
     pointerCache.current.delete(e.pointerId);
     if (pointerCache.current.size < 2) lastDist.current = null;
     if (pointerCache.current.size === 0) lastPoint.current = null;
@@ -146,93 +539,342 @@ export const MindMap: React.FC<Props> = ({ data }) => {
 
   const handleWheel = (e: React.WheelEvent) => {
     const scaleFactor = 1 - e.deltaY * 0.001;
-    setTransform(t => ({ ...t, scale: Math.max(0.1, Math.min(5, t.scale * scaleFactor)) }));
+    setTransform(t => ({ ...t, scale: clampScale(t.scale * scaleFactor) }));
+  };
+
+  const toolButton = "bg-white w-9 h-9 rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 text-slate-600 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed";
+  const dropTarget = drag?.active ? drag.target : undefined;
+
+  // Insertion line between siblings, in the node's local coordinates
+  const dropIndicator = (node: LayoutNode, position: 'before' | 'after') => {
+    const vertical = layout.siblingAxis === 'x';
+    const at = position === 'before' ? -siblingGap / 2 : (vertical ? node.width : node.height) + siblingGap / 2;
+    return (
+      <line
+        x1={vertical ? at : 0}
+        x2={vertical ? at : node.width}
+        y1={vertical ? 0 : at}
+        y2={vertical ? node.height : at}
+        stroke="#4f46e5"
+        strokeWidth="3"
+        strokeLinecap="round"
+      />
+    );
   };
 
   return (
-    <div className="w-full h-[500px] bg-slate-50 rounded-2xl border border-slate-100 overflow-hidden touch-none relative group">
+    <div
+      ref={containerRef}
+      className="w-full h-[500px] bg-slate-50 rounded-2xl border border-slate-100 overflow-hidden touch-none relative group"
+    >
       <div className="absolute top-4 left-4 z-10 flex flex-col gap-2">
-        <button 
-          onClick={resetView}
-          className="bg-white p-2 rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 text-indigo-600 transition-colors flex items-center gap-2 text-sm font-bold"
-          title="重置视图"
-        >
-          <i className="fa-solid fa-expand"></i>
-          显示全部
-        </button>
+        <div className="flex gap-1.5">
+          <button 
+            onClick={resetView}
+            className="bg-white p-2 rounded-lg shadow-sm border border-slate-200 hover:bg-slate-50 text-indigo-600 transition-colors flex items-center gap-2 text-sm font-bold"
+            title="展开全部节点并缩放到适合窗口 (0 仅缩放)"
+          >
+            <i className="fa-solid fa-expand"></i>
+            显示全部
+          </button>
+          <button
+            onClick={() => selectedId && focusOn(selectedId)}
+            disabled={!selectedId || selectedId === viewRoot.id}
+            className={toolButton}
+            title="只显示选中节点的分支 (F)"
+          >
+            <i className="fa-solid fa-crosshairs"></i>
+          </button>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex items-center text-xs text-slate-500 overflow-hidden">
+          <i className="fa-solid fa-magnifying-glass pl-2.5 text-slate-400"></i>
+          <input
+            ref={searchRef}
+            type="search"
+            value={query}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="搜索节点 (/)"
+            aria-label="搜索节点"
+            className="w-28 px-2 py-1.5 focus:outline-none"
+          />
+          {query && (
+            <>
+              <span className="px-1 tabular-nums">{matches.length > 0 ? `${(matchIndex % matches.length) + 1}/${matches.length}` : '0/0'}</span>
+              <button onClick={() => showMatch(matchIndex - 1)} disabled={matches.length === 0} className="px-1.5 py-1.5 hover:text-indigo-600 disabled:opacity-40" title="上一个 (Shift+Enter)">
+                <i className="fa-solid fa-chevron-up"></i>
+              </button>
+              <button onClick={() => showMatch(matchIndex + 1)} disabled={matches.length === 0} className="px-1.5 py-1.5 hover:text-indigo-600 disabled:opacity-40" title="下一个 (Enter)">
+                <i className="fa-solid fa-chevron-down"></i>
+              </button>
+            </>
+          )}
+        </div>
+        {maxDepth > 1 || collapsedIds.size > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex text-xs font-bold text-slate-500 overflow-hidden" title="折叠到指定层级">
+            {[1, 2, 3].map(depth => (
+              <button key={depth} onClick={() => collapseToDepth(depth)} className="px-2.5 py-1.5 hover:bg-slate-50 hover:text-indigo-600">
+                {depth}级
+              </button>
+            ))}
+          </div>
+        ) : null}
+        {onLayoutChange && (
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex text-slate-500 overflow-hidden">
+            {LAYOUT_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => onLayoutChange(mode.id)}
+                className={`w-8 h-8 flex items-center justify-center hover:bg-slate-50 hover:text-indigo-600 ${mode.id === layoutMode ? 'text-indigo-600 bg-indigo-50' : ''}`}
+                title={mode.label}
+              >
+                <i className={`fa-solid ${mode.icon} text-xs`}></i>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editable && (
+        <div className="absolute top-4 right-4 z-10 flex gap-1.5">
+          <button onClick={handleAddChild} disabled={!selectedId} className={toolButton} title="添加子节点 (Insert 或 Ctrl+Enter)">
+            <i className="fa-solid fa-diagram-next"></i>
+          </button>
+          <button onClick={handleAddSibling} disabled={!selectedId} className={toolButton} title="添加同级节点">
+            <i className="fa-solid fa-plus"></i>
+          </button>
+          <button onClick={() => selectedId && startEditing(selectedId)} disabled={!selectedId} className={toolButton} title="重命名 (F2)">
+            <i className="fa-solid fa-pen"></i>
+          </button>
+          <button onClick={handleDelete} disabled={!selectedId || selectedId === dataWithIds.id} className={toolButton} title="删除节点及其子节点 (Delete)">
+            <i className="fa-solid fa-trash"></i>
+          </button>
+          <button
+            onClick={() => setShowProperties(!showProperties)}
+            disabled={!selectedId}
+            className={`${toolButton} ${showProperties ? 'text-indigo-600 bg-indigo-50' : ''}`}
+            title="颜色、图标、优先级、状态、标签和备注"
+          >
+            <i className="fa-solid fa-sliders"></i>
+          </button>
+          <div className="w-px bg-slate-200 mx-1"></div>
+          <button onClick={onUndo} disabled={!canUndo} className={toolButton} title="撤销 (Ctrl+Z)">
+            <i className="fa-solid fa-rotate-left"></i>
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={toolButton} title="重做 (Ctrl+Y)">
+            <i className="fa-solid fa-rotate-right"></i>
+          </button>
+        </div>
+      )}
+
+      {editable && showProperties && selectedNode && (
+        <div className="absolute top-16 right-4 z-20">
+          <NodePropertiesPanel
+            key={selectedNode.id}
+            node={selectedNode}
+            onChange={updateSelected}
+            onClose={() => setShowProperties(false)}
+          />
+        </div>
+      )}
+
+      {focusPath.length > 1 && (
+        <nav className="absolute bottom-4 left-4 z-10 max-w-[60%] bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-full border border-slate-200 text-[11px] text-slate-500 shadow-sm flex items-center gap-1 overflow-hidden" aria-label="聚焦路径">
+          {focusPath.map((node, i) => (
+            <React.Fragment key={node.id}>
+              {i > 0 && <i className="fa-solid fa-chevron-right text-[8px] text-slate-300"></i>}
+              {i === focusPath.length - 1 ? (
+                <span className="font-bold text-indigo-600 truncate">{node.label}</span>
+              ) : (
+                <button onClick={() => focusOn(node.id!)} className="hover:text-indigo-600 truncate max-w-[8rem]">{node.label}</button>
+              )}
+            </React.Fragment>
+          ))}
+        </nav>
+      )}
+
+      <div className="sr-only" aria-live="polite">
+        {query ? `找到 ${matches.length} 个匹配的节点` : ''}
       </div>
 
       <svg
         ref={svgRef}
-        className="w-full h-full cursor-grab active:cursor-grabbing"
-        onPointerDown={handlePointerDown}
+        className="w-full h-full cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-300"
+        tabIndex={0}
+        role="tree"
+        aria-label={`思维导图：${viewRoot.label}`}
+        aria-activedescendant={selectedId && nodes.some(n => n.id === selectedId) ? `${domId}-${selectedId}` : undefined}
+        onKeyDown={handleKeyDown}
+        onPointerDown={(e) => { if (editable && !editingId) setSelectedId(null); handlePointerDown(e); }}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onPointerCancel={handlePointerUp}
         onWheel={handleWheel}
       >
         <g transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}>
-          {nodes.map((node) => (
-            <g key={node.id}>
-              {node.px !== undefined && (
-                <path
-                  d={`M ${node.px} ${node.py} C ${node.px + 40} ${node.py}, ${node.x - 40} ${node.y + nodeHeight / 2}, ${node.x} ${node.y + nodeHeight / 2}`}
-                  fill="none"
-                  stroke="#cbd5e1"
-                  strokeWidth="2"
-                  className="transition-all duration-300"
-                />
-              )}
-              
+          {layout.extraEdges.map((edge, i) => (
+            <path key={`extra-${i}`} d={edgePath(edge)} fill="none" stroke="#94a3b8" strokeWidth="4" strokeLinecap="round" style={{ transition: TRANSITION }} />
+          ))}
+          {visibleNodes.map(node => node.edge && (
+            <path
+              key={`edge-${node.id}`}
+              d={edgePath(node.edge)}
+              fill="none"
+              stroke={colors.has(node.id) ? NODE_COLORS[colors.get(node.id)!].stroke : "#cbd5e1"}
+              strokeOpacity={0.6}
+              strokeWidth="2"
+              opacity={drag?.active && drag.id === node.id ? 0.4 : 1}
+              style={{ transition: TRANSITION }}
+            />
+          ))}
+          {visibleNodes.map((node) => {
+            const isSelected = node.id === selectedId;
+            const isMatch = matchIds.has(node.id);
+            const siblings = siblingInfo.get(node.id);
+            const meta = nodesById.get(node.id);
+            const branchColor = colors.get(node.id);
+            const isDone = meta?.status === 'done';
+            const hasBadges = !!(meta?.status || meta?.icon || meta?.priority || meta?.tags?.length || meta?.note);
+            const description = meta && [
+              meta.status && NODE_STATUSES[meta.status],
+              meta.priority && NODE_PRIORITIES[meta.priority].label,
+              meta.icon && NODE_ICONS[meta.icon].label,
+              meta.tags?.length && `标签：${meta.tags.join('、')}`,
+              meta.note && `备注：${meta.note}`
+            ].filter(Boolean).join('；');
+            const isDropTarget = dropTarget?.id === node.id;
+            const isDragged = drag?.active && drag.id === node.id;
+            const toggleX = node.toggle.x - node.x;
+            const toggleY = node.toggle.y - node.y;
+            return (
+            // Positioned with a CSS transform so switching layouts animates
+            <g key={node.id} opacity={isDragged ? 0.4 : 1} style={{ transform: `translate(${node.x}px, ${node.y}px)`, transition: TRANSITION }}>
               <g 
-                onClick={(e) => { e.stopPropagation(); if(node.hasChildren) toggleNode(node.id); }}
-                className={node.hasChildren ? "cursor-pointer" : ""}
+                id={`${domId}-${node.id}`}
+                role="treeitem"
+                aria-label={description ? `${node.label}（${description}）` : node.label}
+                aria-level={node.depth + 1}
+                aria-posinset={siblings?.position}
+                aria-setsize={siblings?.count}
+                aria-expanded={node.hasChildren ? !node.isCollapsed : undefined}
+                aria-selected={isSelected}
+                onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!editable && node.hasChildren) toggleNode(node.id);
+                  activateNode(node.id);
+                }}
+                onDoubleClick={(e) => { e.stopPropagation(); if (editable) startEditing(node.id); }}
+                className={editable ? "cursor-pointer" : node.hasChildren ? "cursor-pointer" : ""}
               >
+                {!!(meta?.note || meta?.tags?.length) && (
+                  <title>{[meta.note, meta.tags?.map(t => `#${t}`).join(' ')].filter(Boolean).join('\n')}</title>
+                )}
                 <rect
-                  x={node.x}
-                  y={node.y}
-                  width={nodeWidth}
-                  height={nodeHeight}
+                  width={node.width}
+                  height={node.height}
                   rx="8"
-                  fill="white"
-                  stroke={node.isCollapsed ? "#6366f1" : "#e2e8f0"}
-                  strokeWidth={node.isCollapsed ? "2" : "1.5"}
+                  fill={isDropTarget && dropTarget!.position === 'inside' ? "#eef2ff" : isMatch ? "#fef3c7" : meta?.color ? NODE_COLORS[meta.color].fill : "white"}
+                  stroke={isSelected || isDropTarget ? "#4f46e5" : node.id === currentMatch ? "#f59e0b" : branchColor ? NODE_COLORS[branchColor].stroke : node.isCollapsed ? "#6366f1" : "#e2e8f0"}
+                  strokeWidth={isSelected || isDropTarget || node.isCollapsed || node.id === currentMatch ? "2" : "1.5"}
                   className="shadow-sm transition-all duration-300"
                 />
-                <foreignObject x={node.x + 5} y={node.y + 5} width={nodeWidth - 10} height={nodeHeight - 10} className="pointer-events-none">
-                  <div className="h-full flex items-center justify-center text-center text-[11px] font-bold text-slate-800 leading-tight overflow-hidden">
+                {isDropTarget && dropTarget!.position !== 'inside' && dropIndicator(node, dropTarget!.position)}
+                {unsourcedIds.has(node.id) && (
+                  <circle cx={node.width - 6} cy={6} r="3.5" fill="#f59e0b">
+                    <title>转录中未找到依据</title>
+                  </circle>
+                )}
+                <foreignObject x={5} y={5} width={node.width - 10} height={node.height - 10} className={editingId === node.id ? "" : "pointer-events-none"}>
+                  {editingId === node.id ? (
+                    <input
+                      autoFocus
+                      value={draftLabel}
+                      onChange={(e) => setDraftLabel(e.target.value)}
+                      onFocus={(e) => e.target.select()}
+                      onBlur={() => finishEditing(true)}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => {
+                        e.stopPropagation();
+                        if (e.key === 'Enter') finishEditing(true);
+                        if (e.key === 'Escape') finishEditing(false);
+                      }}
+                      className="w-full h-full px-1 text-center text-[11px] font-bold text-slate-800 bg-white border border-indigo-300 rounded focus:outline-none"
+                    />
+                  ) : (
+                  <div className={`h-full flex items-center justify-center text-center text-[11px] font-bold leading-[14px] overflow-hidden break-all ${isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
                     {node.label}
                   </div>
+                  )}
                 </foreignObject>
+                {hasBadges && (
+                  // Sits on the top edge so the label keeps the whole box
+                  <foreignObject x={4} y={-9} width={node.width - 8} height={18} className="pointer-events-none overflow-visible">
+                    <div className="flex gap-0.5 text-[9px] leading-none">
+                      {meta!.status && (
+                        <span className="h-4 px-1 inline-flex items-center rounded-full bg-white border border-slate-200" title={NODE_STATUSES[meta!.status]}>
+                          <i className={`fa-${isDone ? 'solid fa-square-check text-green-500' : 'regular fa-square text-slate-400'}`}></i>
+                        </span>
+                      )}
+                      {meta!.icon && (
+                        <span className="h-4 px-1 inline-flex items-center rounded-full bg-white border border-slate-200">
+                          <i className={`fa-solid ${NODE_ICONS[meta!.icon].icon}`} style={{ color: NODE_ICONS[meta!.icon].color }}></i>
+                        </span>
+                      )}
+                      {meta!.priority && (
+                        <span className="h-4 px-1 inline-flex items-center rounded-full text-white font-bold" style={{ backgroundColor: NODE_PRIORITIES[meta!.priority].color }}>
+                          {NODE_PRIORITIES[meta!.priority].short}
+                        </span>
+                      )}
+                      {meta!.tags?.length ? (
+                        <span className="h-4 px-1 inline-flex items-center gap-0.5 rounded-full bg-white border border-slate-200 text-slate-500">
+                          <i className="fa-solid fa-tag"></i>{meta!.tags.length}
+                        </span>
+                      ) : null}
+                      {meta!.note && (
+                        <span className="h-4 px-1 inline-flex items-center rounded-full bg-white border border-slate-200 text-slate-500">
+                          <i className="fa-solid fa-note-sticky"></i>
+                        </span>
+                      )}
+                    </div>
+                  </foreignObject>
+                )}
                 
                 {node.hasChildren && (
+                  <g
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={(e) => { e.stopPropagation(); toggleNode(node.id); }}
+                    className="cursor-pointer"
+                  >
                   <circle
-                    cx={node.x + nodeWidth}
-                    cy={node.y + nodeHeight / 2}
+                    cx={toggleX}
+                    cy={toggleY}
                     r="8"
                     fill={node.isCollapsed ? "#6366f1" : "white"}
                     stroke="#6366f1"
                     strokeWidth="1.5"
                   />
-                )}
-                {node.hasChildren && (
                   <path
                     d={node.isCollapsed 
-                      ? `M ${node.x + nodeWidth - 4} ${node.y + nodeHeight/2} h 8 M ${node.x + nodeWidth} ${node.y + nodeHeight/2 - 4} v 8`
-                      : `M ${node.x + nodeWidth - 4} ${node.y + nodeHeight/2} h 8`}
+                      ? `M ${toggleX - 4} ${toggleY} h 8 M ${toggleX} ${toggleY - 4} v 8`
+                      : `M ${toggleX - 4} ${toggleY} h 8`}
                     stroke={node.isCollapsed ? "white" : "#6366f1"}
                     strokeWidth="1.5"
                   />
+                  </g>
                 )}
               </g>
             </g>
-          ))}
+            );
+          })}
         </g>
       </svg>
       
       <div className="absolute bottom-4 right-4 bg-white/90 backdrop-blur-sm px-4 py-2 rounded-full border border-slate-200 text-[11px] text-slate-500 font-medium shadow-sm pointer-events-none">
         <i className="fa-solid fa-hand-pointer mr-2"></i>
-        点击节点展开/折叠 · 双指缩放 · 单指拖动
+        {editable
+          ? "双击编辑 · 拖动节点调整层级 · 方向键选择 · Enter 展开/折叠"
+          : "点击节点展开/折叠 · 方向键选择 · +/- 缩放 · / 搜索"}
       </div>
     </div>
   );
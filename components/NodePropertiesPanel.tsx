@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { MindMapNode, NodeColor, NodeIcon, NodePriority, NodeStatus } from '../types';
+import { NODE_COLORS, NODE_ICONS, NODE_PRIORITIES, NODE_STATUSES, parseTags } from '../utils/nodeStyle';
+import { NodePatch } from '../utils/mindMapTree';
+
+interface Props {
+  node: MindMapNode;
+  onChange: (patch: NodePatch) => void;
+  onClose: () => void;
+}
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 rounded-md text-xs border transition-colors ${active ? 'border-indigo-400 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`;
+
+// Colour, icon, priority, status, tags and note of the selected node. Render
+// with key={node.id} so the drafts start over for every node.
+export const NodePropertiesPanel: React.FC<Props> = ({ node, onChange, onClose }) => {
+  const [tags, setTags] = useState((node.tags || []).join('，'));
+  const [note, setNote] = useState(node.note || '');
+
+  const commitTags = () => {
+    const next = parseTags(tags);
+    if (next.join() !== (node.tags || []).join()) onChange({ tags: next.length > 0 ? next : undefined });
+  };
+
+  const commitNote = () => {
+    const next = note.trim();
+    if (next !== (node.note || '')) onChange({ note: next || undefined });
+  };
+
+  return (
+    <div
+      className="w-64 bg-white rounded-xl shadow-lg border border-slate-200 p-4 space-y-3 text-sm"
+      // Keys typed here are not map shortcuts
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider truncate" title={node.label}>节点属性</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="关闭">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5" role="group" aria-label="颜色">
+        <button
+          onClick={() => onChange({ color: undefined })}
+          className={`w-6 h-6 rounded-full border-2 flex items-center justify-center text-slate-300 ${!node.color ? 'border-indigo-500' : 'border-slate-200'}`}
+          title="默认颜色"
+        >
+          <i className="fa-solid fa-ban text-[10px]"></i>
+        </button>
+        {(Object.keys(NODE_COLORS) as NodeColor[]).map(color => (
+          <button
+            key={color}
+            onClick={() => onChange({ color })}
+            className={`w-6 h-6 rounded-full border-2 ${node.color === color ? 'border-indigo-500' : 'border-white'}`}
+            style={{ backgroundColor: NODE_COLORS[color].stroke }}
+            title={NODE_COLORS[color].label}
+          ></button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1" role="group" aria-label="图标">
+        <button onClick={() => onChange({ icon: undefined })} className={optionClass(!node.icon)}>无图标</button>
+        {(Object.keys(NODE_ICONS) as NodeIcon[]).map(icon => (
+          <button key={icon} onClick={() => onChange({ icon })} className={optionClass(node.icon === icon)} title={NODE_ICONS[icon].label}>
+            <i className={`fa-solid ${NODE_ICONS[icon].icon}`} style={{ color: NODE_ICONS[icon].color }}></i>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1" role="group" aria-label="优先级">
+        <button onClick={() => onChange({ priority: undefined })} className={optionClass(!node.priority)}>无优先级</button>
+        {(Object.keys(NODE_PRIORITIES) as NodePriority[]).map(priority => (
+          <button key={priority} onClick={() => onChange({ priority })} className={optionClass(node.priority === priority)} title={NODE_PRIORITIES[priority].label}>
+            {NODE_PRIORITIES[priority].short}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1" role="group" aria-label="状态">
+        <button onClick={() => onChange({ status: undefined })} className={optionClass(!node.status)}>不是任务</button>
+        {(Object.keys(NODE_STATUSES) as NodeStatus[]).map(status => (
+          <button key={status} onClick={() => onChange({ status })} className={optionClass(node.status === status)}>
+            {NODE_STATUSES[status]}
+          </button>
+        ))}
+      </div>
+
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={commitTags}
+        onKeyDown={(e) => { if (e.key === 'Enter') commitTags(); }}
+        placeholder="标签，用逗号分隔"
+        aria-label="标签"
+        className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:outline-none focus:border-indigo-400"
+      />
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={commitNote}
+        placeholder="备注"
+        aria-label="备注"
+        rows={3}
+        className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:outline-none focus:border-indigo-400 resize-none"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { DocumentTemplate, OutputLanguage } from '../types';
+import { MIND_MAP_BRANCH_OPTIONS, MIND_MAP_DEPTH_OPTIONS, OUTPUT_LANGUAGES } from '../services/prompt';
+import { AppSettings, allTemplates } from '../services/settingsStore';
+import { createNodeId } from '../utils/mindMapTree';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+}
+
+const EMPTY_DRAFT = { name: '', instructions: '', structure: '' };
+
+export const OutputSettings: React.FC<Props> = ({ settings, onChange }) => {
+  const [managing, setManaging] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const templates = allTemplates(settings);
+  const selectClass = "bg-transparent border border-slate-200 rounded-lg px-2 py-1 text-slate-500 focus:outline-none focus:border-indigo-300";
+  const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-indigo-300";
+
+  const editTemplate = (template: DocumentTemplate) => {
+    setEditingId(template.id);
+    setDraft({ name: template.name, instructions: template.instructions, structure: template.structure });
+  };
+
+  const saveTemplate = () => {
+    if (!draft.name.trim() || !draft.instructions.trim()) return;
+    const template: DocumentTemplate = {
+      id: editingId || `custom-${createNodeId()}`,
+      name: draft.name.trim(),
+      instructions: draft.instructions.trim(),
+      structure: draft.structure.trim() || '按逻辑分段组织内容。'
+    };
+    const customTemplates = editingId
+      ? settings.customTemplates.map(t => (t.id === editingId ? template : t))
+      : [...settings.customTemplates, template];
+    onChange({ customTemplates, templateId: template.id });
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const deleteTemplate = (id: string) => {
+    const customTemplates = settings.customTemplates.filter(t => t.id !== id);
+    onChange({
+      customTemplates,
+      templateId: settings.templateId === id ? templates[0].id : settings.templateId
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <label className="flex items-center gap-2">
+          <i className="fa-solid fa-language"></i>
+          <select
+            value={settings.outputLanguage}
+            onChange={(e) => onChange({ outputLanguage: e.target.value as OutputLanguage })}
+            className={selectClass}
+          >
+            {OUTPUT_LANGUAGES.map(l => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <i className="fa-solid fa-file-lines"></i>
+          <select
+            value={settings.templateId}
+            onChange={(e) => onChange({ templateId: e.target.value })}
+            className={selectClass}
+          >
+            {templates.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2" title="脑图在中心主题之下的最大层级">
+          <i className="fa-solid fa-sitemap"></i>
+          <select
+            value={settings.mindMapMaxDepth}
+            onChange={(e) => onChange({ mindMapMaxDepth: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {MIND_MAP_DEPTH_OPTIONS.map(d => (
+              <option key={d} value={d}>{d} 级</option>
+            ))}
+          </select>
+          <select
+            value={settings.mindMapMaxBranches}
+            onChange={(e) => onChange({ mindMapMaxBranches: Number(e.target.value) })}
+            className={selectClass}
+            title="每个节点最多的子节点数"
+          >
+            {MIND_MAP_BRANCH_OPTIONS.map(b => (
+              <option key={b} value={b}>每级 ≤{b}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => setManaging(m => !m)} className="hover:text-indigo-600 transition-colors font-medium">
+          {managing ? '收起' : '自定义模板'}
+        </button>
+      </div>
+
+      {managing && (
+        <div className="w-full max-w-md mt-2 p-4 bg-slate-50 border border-slate-100 rounded-xl text-left space-y-3">
+          {settings.customTemplates.length > 0 && (
+            <ul className="space-y-1">
+              {settings.customTemplates.map(t => (
+                <li key={t.id} className="flex items-center justify-between text-sm text-slate-600">
+                  <span className="truncate">{t.name}</span>
+                  <span className="flex gap-2 text-slate-400">
+                    <button onClick={() => editTemplate(t)} className="hover:text-indigo-600" title="编辑">
+                      <i className="fa-solid fa-pen"></i>
+                    </button>
+                    <button onClick={() => deleteTemplate(t.id)} className="hover:text-red-500" title="删除">
+                      <i className="fa-solid fa-trash"></i>
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="模板名称，例如：周报"
+            className={inputClass}
+          />
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder="写作要求，例如：以第一人称总结本周工作，语气积极。"
+            rows={2}
+            className={inputClass}
+          />
+          <textarea
+            value={draft.structure}
+            onChange={(e) => setDraft({ ...draft, structure: e.target.value })}
+            placeholder="文本结构，例如：本周完成、遇到的问题、下周计划三个部分。"
+            rows={2}
+            className={inputClass}
+          />
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={() => { setEditingId(null); setDraft(EMPTY_DRAFT); }}
+                className="px-3 py-1.5 text-slate-500 hover:text-slate-700"
+              >
+                取消
+              </button>
+            )}
+            <button
+              onClick={saveTemplate}
+              disabled={!draft.name.trim() || !draft.instructions.trim()}
+              className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40"
+            >
+              {editingId ? '保存修改' : '添加模板'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
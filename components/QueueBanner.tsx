@@ -0,0 +1,40 @@
+import React from 'react';
+import { QueuedRecording } from '../types';
+
+interface Props {
+  entries: QueuedRecording[];
+  online: boolean;
+  draining: boolean;
+  onRetryFailed: () => void;
+  onDiscardFailed: () => void;
+}
+
+// Status of recordings waiting in the offline queue
+export const QueueBanner: React.FC<Props> = ({ entries, online, draining, onRetryFailed, onDiscardFailed }) => {
+  const failed = entries.filter(e => e.error);
+  const waiting = entries.length - failed.length;
+  if (entries.length === 0 && online) return null;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl bg-amber-50 text-amber-800 text-sm">
+      <i className={`fa-solid ${online ? 'fa-cloud-arrow-up' : 'fa-wifi'}`}></i>
+      <span className="flex-1">
+        {!online && "当前处于离线状态，录音将保存在本地，联网后自动处理。"}
+        {waiting > 0 && (draining
+          ? ` 正在处理 ${waiting} 条离线录音...`
+          : ` 有 ${waiting} 条录音等待处理。`)}
+        {failed.length > 0 && ` ${failed.length} 条录音处理失败：${failed[0].error}`}
+      </span>
+      {failed.length > 0 && (
+        <>
+          <button onClick={onRetryFailed} disabled={!online || draining} className="font-semibold hover:underline disabled:opacity-50">
+            重试
+          </button>
+          <button onClick={onDiscardFailed} className="text-amber-600 hover:underline">
+            丢弃
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
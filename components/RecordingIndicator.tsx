@@ -1,26 +1,85 @@
-
-import React from 'react';
+import React, { useRef, useEffect } from 'react';
 
 interface Props {
   duration: number;
+  maxDuration?: number;
+  isPaused?: boolean;
+  isSilent?: boolean;
+  analyser?: AnalyserNode | null;
 }
 
-export const RecordingIndicator: React.FC<Props> = ({ duration }) => {
+const WAVE_WIDTH = 240;
+const WAVE_HEIGHT = 48;
+
+export const RecordingIndicator: React.FC<Props> = ({ duration, maxDuration, isPaused, isSilent, analyser }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelRef = useRef<HTMLDivElement>(null);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Drawn outside React state so the waveform doesn't re-render the tree every frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !analyser) return;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.strokeStyle = isPaused ? '#cbd5e1' : '#ef4444';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      const step = samples.length / canvas.width;
+      for (let x = 0; x < canvas.width; x++) {
+        const y = (1 - samples[Math.floor(x * step)]) * canvas.height / 2;
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+
+      if (levelRef.current) {
+        const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+        // Speech RMS rarely exceeds ~0.3; scale so normal talking fills most of the bar
+        levelRef.current.style.width = `${isPaused ? 0 : Math.min(100, rms * 300)}%`;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, isPaused]);
+
   return (
     <div className="flex flex-col items-center gap-4">
-      <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center pulse-animation">
-        <div className="w-4 h-4 bg-white rounded-sm"></div>
+      <div className={`w-16 h-16 rounded-full flex items-center justify-center ${isPaused ? 'bg-slate-300' : 'bg-red-500 pulse-animation'}`}>
+        {isPaused
+          ? <i className="fa-solid fa-pause text-white text-xl"></i>
+          : <div className="w-4 h-4 bg-white rounded-sm"></div>}
       </div>
-      <div className="text-2xl font-mono font-medium text-red-500">
+      <div className={`text-2xl font-mono font-medium ${isPaused ? 'text-slate-400' : 'text-red-500'}`}>
         {formatTime(duration)}
+        {maxDuration ? <span className="text-sm text-slate-300"> / {formatTime(maxDuration)}</span> : null}
       </div>
-      <p className="text-slate-500 animate-pulse">Recording... tap to stop</p>
+      {analyser && (
+        <div className="flex flex-col items-center gap-2">
+          <canvas ref={canvasRef} width={WAVE_WIDTH} height={WAVE_HEIGHT} className="opacity-80" />
+          <div className="w-40 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div ref={levelRef} className="h-full bg-gradient-to-r from-green-400 via-yellow-400 to-red-500 transition-[width] duration-75"></div>
+          </div>
+        </div>
+      )}
+      {isSilent && !isPaused && (
+        <p className="flex items-center gap-2 text-amber-600 text-sm bg-amber-50 px-3 py-1.5 rounded-lg">
+          <i className="fa-solid fa-microphone-slash"></i>
+          No sound detected — check your microphone
+        </p>
+      )}
+      <p className="text-slate-500 animate-pulse">{isPaused ? 'Paused' : 'Recording... tap to stop'}</p>
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { RefinementInstruction, Revision, TransformationResult } from '../types';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { blobToBase64 } from '../utils/audioUtils';
+import { ResultDiff } from './ResultDiff';
+
+interface Props {
+  result: TransformationResult;
+  revisions: Revision[];
+  busy: boolean;
+  error: string | null;
+  onRefine: (instruction: RefinementInstruction) => void;
+  onCancel: () => void;
+  onRevert: (revision: Revision) => void;
+}
+
+const SUGGESTIONS = ['更简洁一些', '语气更正式', '翻译成英文', '把第 2 点拆成两个分支'];
+
+// Spoken instructions are short; cap them well below a recording
+const MAX_INSTRUCTION_SECONDS = 60;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
+
+// Follow-up instructions for the AI, plus the versions they produced
+export const RefinementPanel: React.FC<Props> = ({ result, revisions, busy, error, onRefine, onCancel, onRevert }) => {
+  const [text, setText] = useState('');
+  const [listening, setListening] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  const recorder = useAudioRecorder({
+    maxDurationSeconds: MAX_INSTRUCTION_SECONDS,
+    onStop: async ({ blob, mimeType }) => {
+      setListening(false);
+      onRefine({ audioBase64: await blobToBase64(blob), mimeType });
+    }
+  });
+
+  const submit = () => {
+    const instruction = text.trim();
+    if (!instruction || busy) return;
+    onRefine({ text: instruction });
+    setText('');
+  };
+
+  const toggleListening = async () => {
+    if (listening) {
+      recorder.stop();
+      return;
+    }
+    try {
+      await recorder.start();
+      setListening(true);
+    } catch (err) {
+      console.error("无法访问麦克风", err);
+    }
+  };
+
+  const comparing = revisions.find(r => r.id === comparingId);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-5 space-y-4">
+      <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider">修订</h4>
+      <div className="flex gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          disabled={busy || listening}
+          placeholder="告诉 AI 如何修改，例如：更简洁一些"
+          className="flex-1 px-4 py-2 border border-slate-200 rounded-xl focus:outline-none focus:border-indigo-400 disabled:bg-slate-50"
+        />
+        <button
+          onClick={toggleListening}
+          disabled={busy}
+          className={`w-10 h-10 rounded-xl flex items-center justify-center transition-colors disabled:opacity-50 ${listening ? 'bg-red-500 text-white animate-pulse' : 'bg-slate-100 text-slate-500 hover:text-indigo-600'}`}
+          title={listening ? `停止并发送（${recorder.elapsed} 秒）` : "口述修改要求"}
+        >
+          <i className={`fa-solid ${listening ? 'fa-stop' : 'fa-microphone'}`}></i>
+        </button>
+        {busy ? (
+          <button onClick={onCancel} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-colors text-sm font-semibold">
+            取消
+          </button>
+        ) : (
+          <button
+            onClick={submit}
+            disabled={!text.trim()}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors text-sm font-semibold disabled:opacity-50"
+          >
+            修订
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {SUGGESTIONS.map(s => (
+          <button
+            key={s}
+            onClick={() => onRefine({ text: s })}
+            disabled={busy || listening}
+            className="px-3 py-1 text-xs bg-slate-100 text-slate-500 rounded-full hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50"
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+      {busy && (
+        <p className="text-sm text-indigo-600 flex items-center gap-2">
+          <i className="fa-solid fa-spinner animate-spin"></i>
+          AI 正在修订...
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {revisions.length > 1 && (
+        <ul className="divide-y divide-slate-100 text-sm">
+          {[...revisions].reverse().map((revision, i) => {
+            const number = revisions.length - i;
+            const isCurrent = revision.result === result;
+            return (
+              <li key={revision.id} className="flex items-center gap-3 py-2">
+                <span className="text-slate-400 w-10">v{number}</span>
+                <span className="flex-1 truncate text-slate-600" title={revision.instruction}>
+                  {revision.instruction || '原始版本'}
+                </span>
+                <span className="text-slate-300 text-xs">{formatTime(revision.createdAt)}</span>
+                {isCurrent ? (
+                  <span className="text-xs text-indigo-600 font-semibold">当前</span>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setComparingId(comparingId === revision.id ? null : revision.id)}
+                      className={`text-xs hover:underline ${comparingId === revision.id ? 'text-indigo-600' : 'text-slate-500'}`}
+                    >
+                      对比
+                    </button>
+                    <button onClick={() => onRevert(revision)} disabled={busy} className="text-xs text-slate-500 hover:underline disabled:opacity-50">
+                      恢复
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {comparing && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            v{revisions.indexOf(comparing) + 1} → 当前版本
+          </p>
+          <ResultDiff before={comparing.result} after={result} />
+        </div>
+      )}
+    </div>
+  );
+};
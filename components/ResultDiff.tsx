@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { TransformationResult } from '../types';
+import { diffMindMaps, diffText } from '../utils/textDiff';
+
+interface Props {
+  before: TransformationResult;
+  after: TransformationResult;
+}
+
+// Inline text changes followed by the map branches added and removed
+export const ResultDiff: React.FC<Props> = ({ before, after }) => {
+  const text = useMemo(() => diffText(before.formalText, after.formalText), [before.formalText, after.formalText]);
+  const map = useMemo(() => diffMindMaps(before.mindMap, after.mindMap), [before.mindMap, after.mindMap]);
+  const textChanged = text.some(part => part.type !== 'equal');
+
+  return (
+    <div className="space-y-3">
+      {textChanged && (
+        <div className="bg-slate-50 rounded-xl p-4 max-h-72 overflow-y-auto whitespace-pre-wrap text-sm text-slate-700 leading-relaxed">
+          {text.map((part, i) => (
+            part.type === 'equal'
+              ? <span key={i}>{part.text}</span>
+              : part.type === 'insert'
+                ? <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+                : <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+          ))}
+        </div>
+      )}
+      {(map.added.length > 0 || map.removed.length > 0) && (
+        <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+          {map.removed.map(path => <li key={`-${path}`} className="text-red-600">− {path}</li>)}
+          {map.added.map(path => <li key={`+${path}`} className="text-green-700">+ {path}</li>)}
+        </ul>
+      )}
+      {!textChanged && map.added.length === 0 && map.removed.length === 0 && (
+        <p className="text-sm text-slate-400">没有差异。</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConnectionSettings, ProviderId } from '../types';
+import { AppSettings, MAX_RECORDING_OPTIONS } from '../services/settingsStore';
+import { ApiKeys } from '../services/apiKeyStore';
+import { PROVIDERS, REMOTE_PROVIDERS, configFor, createTransformer } from '../services/transformerRegistry';
+import { DEFAULT_BASE_URL, DEFAULT_TRANSCRIPTION_MODEL } from '../services/openaiService';
+import { isAbortError } from '../utils/abort';
+import { OutputSettings } from './OutputSettings';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+  apiKeys: ApiKeys;
+  onApiKeysChange: (keys: ApiKeys) => void;
+  onClose: () => void;
+}
+
+type Check = { state: 'checking' } | { state: 'ok' } | { state: 'error'; message: string };
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-indigo-300";
+const labelClass = "block text-xs font-semibold text-slate-500 mb-1";
+
+export const SettingsPanel: React.FC<Props> = ({ settings, onChange, apiKeys, onApiKeysChange, onClose }) => {
+  const [showKey, setShowKey] = useState(false);
+  const [check, setCheck] = useState<Check | null>(null);
+  const checkAbortRef = useRef<AbortController | null>(null);
+
+  const provider = settings.provider;
+  const connection = settings.connections[provider] || {};
+  const apiKey = apiKeys[provider] || '';
+  const remote = REMOTE_PROVIDERS.includes(provider);
+
+  // A result only speaks for the configuration it was made with
+  useEffect(() => {
+    checkAbortRef.current?.abort();
+    setCheck(null);
+  }, [provider, apiKey, connection.proxy, connection.model, connection.baseUrl]);
+
+  useEffect(() => () => checkAbortRef.current?.abort(), []);
+
+  const updateConnection = (patch: ConnectionSettings) =>
+    onChange({ connections: { ...settings.connections, [provider]: { ...connection, ...patch } } });
+
+  const verify = async () => {
+    const transformer = createTransformer(configFor(provider, connection, apiKey));
+    if (!transformer.verify) return;
+    const controller = new AbortController();
+    checkAbortRef.current = controller;
+    setCheck({ state: 'checking' });
+    try {
+      await transformer.verify(controller.signal);
+      setCheck({ state: 'ok' });
+    } catch (err: any) {
+      if (!isAbortError(err)) setCheck({ state: 'error', message: err.message || "验证失败。" });
+    }
+  };
+
+  return (
+    <div className="animate-in fade-in duration-300 space-y-8">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-800">设置</h3>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 text-sm font-medium"
+        >
+          <i className="fa-solid fa-arrow-left"></i>
+          返回
+        </button>
+      </div>
+
+      <section className="space-y-4">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">模型服务</h4>
+        <div>
+          <label className={labelClass} htmlFor="settings-provider">服务</label>
+          <select
+            id="settings-provider"
+            value={provider}
+            onChange={(e) => onChange({ provider: e.target.value as ProviderId })}
+            className={inputClass}
+          >
+            {PROVIDERS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {remote && (
+          <>
+            <label className="flex items-start gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={!!connection.proxy}
+                onChange={(e) => updateConnection({ proxy: e.target.checked })}
+                className="mt-1"
+              />
+              <span>
+                通过本地代理连接
+                <span className="block text-xs text-slate-400">密钥保存在运行应用的服务器上（.env.local），不经过浏览器</span>
+              </span>
+            </label>
+
+            {!connection.proxy && (
+              <div>
+                <label className={labelClass} htmlFor="settings-api-key">API 密钥</label>
+                <div className="relative">
+                  <input
+                    id="settings-api-key"
+                    type={showKey ? 'text' : 'password'}
+                    value={apiKey}
+                    onChange={(e) => onApiKeysChange({ ...apiKeys, [provider]: e.target.value.trim() })}
+                    placeholder={provider === 'openai' ? '自建服务无需密钥时可留空' : '粘贴 API 密钥'}
+                    autoComplete="off"
+                    spellCheck={false}
+                    className={`${inputClass} pr-10 font-mono`}
+                  />
+                  <button
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                    title={showKey ? '隐藏密钥' : '显示密钥'}
+                  >
+                    <i className={`fa-solid ${showKey ? 'fa-eye-slash' : 'fa-eye'}`}></i>
+                  </button>
+                </div>
+                <label className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+                  <input
+                    type="checkbox"
+                    checked={settings.rememberApiKeys}
+                    onChange={(e) => onChange({ rememberApiKeys: e.target.checked })}
+                  />
+                  在此设备上记住密钥（否则关闭标签页后清除）
+                </label>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass} htmlFor="settings-model">模型</label>
+              <input
+                id="settings-model"
+                value={connection.model || ''}
+                onChange={(e) => updateConnection({ model: e.target.value.trim() || undefined })}
+                placeholder="留空使用默认模型"
+                className={inputClass}
+              />
+            </div>
+
+            {provider === 'openai' && !connection.proxy && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass} htmlFor="settings-base-url">接口地址</label>
+                  <input
+                    id="settings-base-url"
+                    value={connection.baseUrl || ''}
+                    onChange={(e) => updateConnection({ baseUrl: e.target.value.trim() || undefined })}
+                    placeholder={DEFAULT_BASE_URL}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="settings-transcription-model">转录模型</label>
+                  <input
+                    id="settings-transcription-model"
+                    value={connection.transcriptionModel || ''}
+                    onChange={(e) => updateConnection({ transcriptionModel: e.target.value.trim() || undefined })}
+                    placeholder={DEFAULT_TRANSCRIPTION_MODEL}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={verify}
+                disabled={check?.state === 'checking'}
+                className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-semibold disabled:opacity-50"
+              >
+                {check?.state === 'checking' ? <><i className="fa-solid fa-spinner animate-spin mr-1"></i>验证中</> : '验证连接'}
+              </button>
+              {check?.state === 'ok' && (
+                <span className="text-sm text-emerald-600"><i className="fa-solid fa-circle-check mr-1"></i>连接正常，密钥有效</span>
+              )}
+            </div>
+            {check?.state === 'error' && (
+              <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3" role="alert">
+                <i className="fa-solid fa-circle-exclamation mr-1"></i>
+                {check.message}
+              </p>
+            )}
+          </>
+        )}
+
+        {!remote && (
+          <p className="text-sm text-slate-400">
+            {provider === 'local' ? '离线整理不需要密钥，只能处理输入或粘贴的文字。' : '本地模拟不需要密钥，返回固定的示例结果。'}
+          </p>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">默认输出</h4>
+        <OutputSettings settings={settings} onChange={onChange} />
+        <label className="flex items-center justify-center gap-2 text-xs text-slate-400">
+          <i className="fa-solid fa-hourglass-half"></i>
+          最长录音
+          <select
+            value={settings.maxRecordingSeconds}
+            onChange={(e) => onChange({ maxRecordingSeconds: Number(e.target.value) })}
+            className="bg-transparent border border-slate-200 rounded-lg px-2 py-1 text-slate-500 focus:outline-none focus:border-indigo-300"
+          >
+            {MAX_RECORDING_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds / 60} 分钟</option>
+            ))}
+          </select>
+        </label>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { SourceSpan, Speaker, TranscriptSegment } from '../types';
+import { audioRange, spansOverlap } from '../utils/sourceSpans';
+import { speakerName } from '../utils/speakers';
+
+interface Props {
+  transcription: string;
+  segments?: TranscriptSegment[];
+  // Spans of the selected node or paragraph; an empty array means it has none
+  highlight: SourceSpan[] | null;
+  audio?: Blob | null;
+  speakers?: Speaker[];
+  onRenameSpeaker?: (id: string, name: string) => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Transcript with the sentences behind the current selection highlighted,
+// and playback of the matching slice of the recording
+export const SourcePanel: React.FC<Props> = ({ transcription, segments, highlight, audio, speakers, onRenameSpeaker }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const firstHitRef = useRef<HTMLSpanElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const audioUrl = useMemo(() => (audio ? URL.createObjectURL(audio) : null), [audio]);
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  // Transcript split into segments and the uncovered text between them
+  const pieces = useMemo(() => {
+    const result: { text: string; segment?: TranscriptSegment }[] = [];
+    let cursor = 0;
+    for (const segment of [...(segments || [])].sort((a, b) => a.from - b.from)) {
+      if (segment.to <= cursor) continue;
+      const from = Math.max(cursor, segment.from);
+      if (from > cursor) result.push({ text: transcription.slice(cursor, from) });
+      result.push({ text: transcription.slice(from, segment.to), segment });
+      cursor = segment.to;
+    }
+    if (cursor < transcription.length) result.push({ text: transcription.slice(cursor) });
+    return result;
+  }, [transcription, segments]);
+
+  const isHighlighted = (segment?: TranscriptSegment) =>
+    !!segment && !!highlight?.some(span => spansOverlap(span, segment));
+
+  useEffect(() => {
+    firstHitRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlight]);
+
+  const range = highlight ? audioRange(highlight) : null;
+
+  const play = (start: number, end: number) => {
+    const el = audioRef.current;
+    if (!el) return;
+    stopAtRef.current = end;
+    el.currentTime = start;
+    el.play().catch(err => console.error("播放失败", err));
+  };
+
+  const handleTimeUpdate = () => {
+    const el = audioRef.current;
+    if (el && stopAtRef.current !== null && el.currentTime >= stopAtRef.current) {
+      el.pause();
+      stopAtRef.current = null;
+    }
+  };
+
+  const finishRename = (save: boolean) => {
+    if (renamingId && save) onRenameSpeaker?.(renamingId, draftName);
+    setRenamingId(null);
+  };
+
+  let marked = false;
+  let lastSpeaker: string | undefined;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider">原始转录内容</h4>
+        {highlight && highlight.length === 0 && (
+          <span className="flex items-center gap-1.5 text-xs text-amber-600 bg-amber-50 px-2.5 py-1 rounded-lg">
+            <i className="fa-solid fa-circle-exclamation"></i>
+            转录中未找到对应的原话
+          </span>
+        )}
+        {range && audioUrl && (
+          <button
+            onClick={() => (playing ? audioRef.current?.pause() : play(range.start, range.end))}
+            className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <i className={`fa-solid ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+            {formatTime(range.start)} – {formatTime(range.end)}
+          </button>
+        )}
+      </div>
+      {speakers && speakers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-500">
+          <i className="fa-solid fa-users text-slate-300"></i>
+          {speakers.map(speaker => (
+            renamingId === speaker.id ? (
+              <input
+                key={speaker.id}
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                onBlur={() => finishRename(true)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename(true);
+                  if (e.key === 'Escape') finishRename(false);
+                }}
+                className="w-24 px-2 py-0.5 border border-indigo-300 rounded-full focus:outline-none"
+              />
+            ) : (
+              <button
+                key={speaker.id}
+                onClick={() => { if (onRenameSpeaker) { setRenamingId(speaker.id); setDraftName(speaker.name); } }}
+                disabled={!onRenameSpeaker}
+                className="px-2 py-0.5 bg-slate-100 rounded-full hover:bg-indigo-50 hover:text-indigo-600 disabled:hover:bg-slate-100 disabled:hover:text-slate-500"
+                title={onRenameSpeaker ? "点击重命名" : undefined}
+              >
+                {speaker.name}
+              </button>
+            )
+          ))}
+        </div>
+      )}
+      <p className="text-slate-400 text-sm italic max-h-64 overflow-y-auto leading-relaxed">
+        {pieces.map((piece, i) => {
+          const speaker = piece.segment?.speaker;
+          const speakerChanged = !!speaker && speaker !== lastSpeaker;
+          if (speaker) lastSpeaker = speaker;
+          const hit = isHighlighted(piece.segment);
+          const first = hit && !marked;
+          if (hit) marked = true;
+          const timed = piece.segment?.start !== undefined && piece.segment.end !== undefined;
+          return (
+            <React.Fragment key={i}>
+              {speakerChanged && (
+                <>
+                  {i > 0 && <br />}
+                  <span className="not-italic font-bold text-slate-500">{speakerName(speakers, speaker!)}：</span>
+                </>
+              )}
+              <span
+                ref={first ? firstHitRef : undefined}
+                onClick={timed && audioUrl ? () => play(piece.segment!.start!, piece.segment!.end!) : undefined}
+                className={`${hit ? 'bg-amber-100 text-slate-700 not-italic rounded' : ''} ${timed && audioUrl ? 'cursor-pointer hover:text-indigo-600' : ''}`}
+                title={timed ? `${formatTime(piece.segment!.start!)} – ${formatTime(piece.segment!.end!)}` : undefined}
+              >
+                {piece.text}
+              </span>
+            </React.Fragment>
+          );
+        })}
+      </p>
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          className="hidden"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TransformationResult } from '../types';
+import { mapFromText, syncTextFromMap } from '../utils/textMapSync';
+import { realignParagraphSources } from '../utils/sourceSpans';
+import { ResultDiff } from './ResultDiff';
+
+interface Props {
+  result: TransformationResult;
+  // The result as of the last time text and map were known to agree
+  base: TransformationResult;
+  onApply: (result: TransformationResult) => void;
+  onDismiss: () => void;
+}
+
+type Direction = 'toText' | 'toMap';
+
+const propose = (direction: Direction, result: TransformationResult, base: TransformationResult): TransformationResult => {
+  if (direction === 'toMap') return { ...result, mindMap: mapFromText(result.formalText, result.mindMap) };
+  const formalText = syncTextFromMap(result.formalText, base.mindMap, result.mindMap);
+  return {
+    ...result,
+    formalText,
+    paragraphSources: realignParagraphSources(result.formalText, result.paragraphSources, formalText)
+  };
+};
+
+// Offers to carry edits of the map over to the text or the other way round,
+// with a preview of the change before it is applied
+export const SyncPanel: React.FC<Props> = ({ result, base, onApply, onDismiss }) => {
+  const [direction, setDirection] = useState<Direction | null>(null);
+  const mapChanged = result.mindMap !== base.mindMap;
+  const textChanged = result.formalText !== base.formalText;
+  if (!mapChanged && !textChanged) return null;
+  // Recomputed on every render so it follows further edits
+  const proposal = direction && propose(direction, result, base);
+
+  const buttonClass = "text-xs font-semibold px-3 py-1 rounded-full bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50";
+
+  return (
+    <div className="mb-6 rounded-xl border border-indigo-100 bg-indigo-50/50 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <i className="fa-solid fa-arrows-rotate text-indigo-400"></i>
+        <span className="flex-1">
+          {mapChanged && textChanged ? '正文和思维导图都已修改。' : mapChanged ? '思维导图已修改，正文尚未更新。' : '正文已修改，思维导图尚未更新。'}
+        </span>
+        {mapChanged && (
+          <button onClick={() => setDirection('toText')} className={buttonClass}>
+            同步到正文
+          </button>
+        )}
+        {textChanged && (
+          <button onClick={() => setDirection('toMap')} className={buttonClass}>
+            根据正文重建导图
+          </button>
+        )}
+        <button onClick={() => { setDirection(null); onDismiss(); }} className="text-xs text-slate-400 hover:text-slate-600">
+          忽略
+        </button>
+      </div>
+      {proposal && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            {direction === 'toText' ? '将按修改后的分支重写正文中对应的章节：' : '将按正文的标题和列表重建思维导图：'}
+          </p>
+          <ResultDiff before={result} after={proposal} />
+          <div className="flex gap-2">
+            <button
+              onClick={() => { onApply(proposal); setDirection(null); }}
+              className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-semibold"
+            >
+              应用
+            </button>
+            <button onClick={() => setDirection(null)} className="px-4 py-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm">
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useRef, useState } from 'react';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (text: string) => void;
+  // The notes will be outlined by rules rather than a model
+  offline?: boolean;
+}
+
+const TEXT_ACCEPT = '.txt,.md,.markdown';
+
+// Typed or pasted notes as an alternative to speaking; collapsed until needed
+export const TextInputPanel: React.FC<Props> = ({ value, onChange, onSubmit, offline }) => {
+  const [open, setOpen] = useState(!!value);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const text = value.trim();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange(await file.text());
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 font-medium"
+      >
+        <i className="fa-solid fa-keyboard"></i>
+        输入或粘贴文字笔记
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-xl space-y-2">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && text) onSubmit(text);
+        }}
+        placeholder="粘贴会议记录、聊天记录或随手写的要点，标题和列表会保留为导图的层级"
+        aria-label="文字笔记"
+        rows={6}
+        autoFocus
+        className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:border-indigo-300 resize-y"
+      />
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <button onClick={() => inputRef.current?.click()} className="hover:text-indigo-600 transition-colors flex items-center gap-1">
+          <i className="fa-solid fa-file-lines"></i>
+          打开文本文件
+        </button>
+        <input ref={inputRef} type="file" accept={TEXT_ACCEPT} onChange={handleFile} className="hidden" />
+        <span className="flex-1">{offline ? '将按标题、列表和段落离线整理' : `${text.length} 字 · Ctrl+Enter 提交`}</span>
+        <button onClick={() => { onChange(''); setOpen(false); }} className="hover:text-slate-600">
+          收起
+        </button>
+        <button
+          onClick={() => onSubmit(text)}
+          disabled={!text}
+          className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          整理
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+export interface RecordingOutput {
+  blob: Blob;
+  mimeType: string;
+  // Seconds actually recorded, pauses excluded
+  duration: number;
+}
+
+interface Options {
+  maxDurationSeconds: number;
+  onStop: (output: RecordingOutput) => void;
+}
+
+const TICK_MS = 250;
+// RMS below this counts as silence; typical speech sits well above 0.02
+const SILENCE_RMS = 0.01;
+const SILENCE_WARNING_MS = 5000;
+
+export const useAudioRecorder = ({ maxDurationSeconds, onStop }: Options) => {
+  const [elapsed, setElapsed] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isSilent, setIsSilent] = useState(false);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // Time recorded before the current (unpaused) stretch, and when that stretch began
+  const accumulatedRef = useRef(0);
+  const resumedAtRef = useRef<number | null>(null);
+  const silentSinceRef = useRef<number | null>(null);
+  // Keep the latest callbacks without restarting the recorder
+  const onStopRef = useRef(onStop);
+  const maxRef = useRef(maxDurationSeconds);
+  onStopRef.current = onStop;
+  maxRef.current = maxDurationSeconds;
+
+  const elapsedMs = () =>
+    accumulatedRef.current + (resumedAtRef.current !== null ? Date.now() - resumedAtRef.current : 0);
+
+  const cleanup = useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    setAnalyser(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  }, []);
+
+  const tick = (node: AnalyserNode) => {
+    const ms = elapsedMs();
+    setElapsed(Math.floor(ms / 1000));
+    if (ms >= maxRef.current * 1000) {
+      stop();
+      return;
+    }
+    if (resumedAtRef.current === null) return;
+
+    const samples = new Float32Array(node.fftSize);
+    node.getFloatTimeDomainData(samples);
+    const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+    if (rms >= SILENCE_RMS) {
+      silentSinceRef.current = null;
+      setIsSilent(false);
+    } else {
+      silentSinceRef.current ??= Date.now();
+      setIsSilent(Date.now() - silentSinceRef.current >= SILENCE_WARNING_MS);
+    }
+  };
+
+  // Throws when the microphone is unavailable or permission is denied
+  const start = useCallback(async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    streamRef.current = stream;
+    mediaRecorderRef.current = recorder;
+    audioChunksRef.current = [];
+
+    const context = new AudioContext();
+    const node = context.createAnalyser();
+    node.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(node);
+    audioContextRef.current = context;
+    setAnalyser(node);
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        audioChunksRef.current.push(e.data);
+      }
+    };
+
+    recorder.onstop = () => {
+      if (resumedAtRef.current !== null) accumulatedRef.current += Date.now() - resumedAtRef.current;
+      resumedAtRef.current = null;
+      const duration = Math.round(accumulatedRef.current / 1000);
+      cleanup();
+      onStopRef.current({
+        blob: new Blob(audioChunksRef.current, { type: recorder.mimeType }),
+        mimeType: recorder.mimeType,
+        duration
+      });
+    };
+
+    recorder.start();
+    accumulatedRef.current = 0;
+    resumedAtRef.current = Date.now();
+    silentSinceRef.current = null;
+    setElapsed(0);
+    setIsPaused(false);
+    setIsSilent(false);
+    timerRef.current = window.setInterval(() => tick(node), TICK_MS);
+  }, [cleanup]);
+
+  const pause = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    if (resumedAtRef.current !== null) accumulatedRef.current += Date.now() - resumedAtRef.current;
+    resumedAtRef.current = null;
+    silentSinceRef.current = null;
+    setIsPaused(true);
+    setIsSilent(false);
+  }, []);
+
+  const resume = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    resumedAtRef.current = Date.now();
+    setIsPaused(false);
+  }, []);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    cleanup();
+  }, [cleanup]);
+
+  return { start, stop, pause, resume, elapsed, isPaused, isSilent, analyser };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { AppStatus } from '../types';
+import { CommandId, CommandSpec, commandForKey, commandsFor, keyTarget } from '../utils/commands';
+
+export type CommandHandlers = Partial<Record<CommandId, () => void>>;
+
+// Runs shortcuts for the current status from anywhere on the page. A command
+// is available when the app passes a handler for it; the rest stay hidden.
+export const useCommands = (status: AppStatus, handlers: CommandHandlers): CommandSpec[] => {
+  const stateRef = useRef({ status, handlers });
+  stateRef.current = { status, handlers };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Left to whatever handled the key first, e.g. the mind map
+      if (e.defaultPrevented || e.repeat || e.isComposing) return;
+      const { status, handlers } = stateRef.current;
+      const id = commandForKey(status, e, keyTarget(e.target));
+      const handler = id && handlers[id];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return commandsFor(status).filter(c => handlers[c.id]);
+};
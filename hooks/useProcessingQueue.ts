@@ -0,0 +1,98 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { QueuedRecording } from '../types';
+import {
+  enqueueRecording,
+  listQueuedRecordings,
+  removeQueuedRecording,
+  updateQueuedRecording
+} from '../services/processingQueue';
+import { TransformError } from '../services/transformErrors';
+
+interface Options {
+  // Turns a queued recording into a saved session; throws when it fails
+  process: (entry: QueuedRecording) => Promise<void>;
+}
+
+const isOffline = (error: unknown) =>
+  (error instanceof TransformError && error.code === 'network') || !navigator.onLine;
+
+// Recordings made while offline wait in IndexedDB and are processed one by
+// one, oldest first, whenever the browser reports it is back online.
+export const useProcessingQueue = ({ process }: Options) => {
+  const [entries, setEntries] = useState<QueuedRecording[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [draining, setDraining] = useState(false);
+  const drainingRef = useRef(false);
+  const processRef = useRef(process);
+  processRef.current = process;
+
+  const refresh = useCallback(async () => {
+    const list = await listQueuedRecordings();
+    setEntries(list);
+    return list;
+  }, []);
+
+  const drain = useCallback(async () => {
+    if (drainingRef.current || !navigator.onLine) return;
+    drainingRef.current = true;
+    setDraining(true);
+    try {
+      for (const entry of await refresh()) {
+        if (entry.error) continue;
+        try {
+          await processRef.current(entry);
+          await removeQueuedRecording(entry.id);
+        } catch (err: any) {
+          // Still offline: leave the rest for the next time we come back
+          if (isOffline(err)) break;
+          await updateQueuedRecording({ ...entry, error: err.message || "处理失败。" });
+        }
+        await refresh();
+      }
+    } catch (err) {
+      console.error("处理离线队列失败", err);
+    } finally {
+      drainingRef.current = false;
+      setDraining(false);
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      drain();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    // Pick up whatever was left from an earlier visit
+    drain().catch(() => {});
+    refresh().catch(err => console.error("读取离线队列失败", err));
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [drain, refresh]);
+
+  const enqueue = useCallback(async (data: Pick<QueuedRecording, 'audio' | 'mimeType' | 'duration'>) => {
+    await enqueueRecording(data);
+    await refresh();
+  }, [refresh]);
+
+  // Clears the errors of failed entries and tries them again
+  const retryFailed = useCallback(async () => {
+    for (const entry of entries) {
+      if (entry.error) await updateQueuedRecording({ ...entry, error: undefined });
+    }
+    await drain();
+  }, [entries, drain]);
+
+  const discardFailed = useCallback(async () => {
+    for (const entry of entries) {
+      if (entry.error) await removeQueuedRecording(entry.id);
+    }
+    await refresh();
+  }, [entries, refresh]);
+
+  return { entries, online, draining, enqueue, drain, retryFailed, discardFailed };
+};
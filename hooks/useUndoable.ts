@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+
+interface UndoState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const useUndoable = <T,>(initial: T) => {
+  const [state, setState] = useState<UndoState<T>>({ past: [], present: initial, future: [] });
+
+  // Records a new value that can be undone
+  const set = useCallback((value: T) => {
+    setState(s => (Object.is(s.present, value)
+      ? s
+      : { past: [...s.past, s.present].slice(-HISTORY_LIMIT), present: value, future: [] }));
+  }, []);
+
+  // Replaces the value and forgets the history, e.g. when a new result is loaded
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => s.past.length === 0 ? s : {
+      past: s.past.slice(0, -1),
+      present: s.past[s.past.length - 1],
+      future: [s.present, ...s.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => s.future.length === 0 ? s : {
+      past: [...s.past, s.present],
+      present: s.future[0],
+      future: s.future.slice(1)
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
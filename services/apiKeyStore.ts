@@ -0,0 +1,30 @@
+import { ProviderId } from "../types";
+
+const STORAGE_KEY = 'speech2formal.apiKeys';
+
+export type ApiKeys = Partial<Record<ProviderId, string>>;
+
+const read = (storage: Storage): ApiKeys => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Keys live apart from the other settings: in this tab's sessionStorage by
+// default, in localStorage only when the user asks for them to be remembered.
+export const loadApiKeys = (): ApiKeys => ({ ...read(localStorage), ...read(sessionStorage) });
+
+export const saveApiKeys = (keys: ApiKeys, remember: boolean) => {
+  const kept = Object.fromEntries(Object.entries(keys).filter(([, key]) => key));
+  try {
+    const [target, other] = remember ? [localStorage, sessionStorage] : [sessionStorage, localStorage];
+    if (Object.keys(kept).length > 0) target.setItem(STORAGE_KEY, JSON.stringify(kept));
+    else target.removeItem(STORAGE_KEY);
+    other.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn("保存 API 密钥失败", err);
+  }
+};
@@ -0,0 +1,199 @@
+import { PartialResult, SpeechTransformer, TransformOptions, TransformationResult } from "../types";
+import { blobToBase64 } from "../utils/audioUtils";
+import { encodeWav, mixToMono } from "../utils/wavEncoder";
+import { mergeSegmentResults } from "../utils/resultMerge";
+import { applyMinutes } from "../utils/meetingMinutes";
+import { mergeMindMaps } from "../utils/mindMapTree";
+import { throwIfAborted } from "../utils/abort";
+import { TransformError, withRetry } from "./transformErrors";
+
+export const CHUNKING = {
+  // Anything longer or larger than this is split before sending
+  segmentSeconds: 5 * 60,
+  // Base64 adds a third, and Gemini takes at most 20 MB of inline data per request
+  inlineMaxBytes: 12 * 1024 * 1024,
+  // Speech models are trained on 16 kHz audio; it keeps each WAV segment small
+  sampleRate: 16000,
+  // Boundaries move to the quietest point within this many seconds
+  boundarySearchSeconds: 10
+};
+
+export interface ProcessingProgress {
+  completed: number;
+  total: number;
+  // 'writing' is for typed notes, which have nothing to transcribe
+  stage: 'decoding' | 'transforming' | 'merging' | 'writing';
+  // Set while waiting to retry the current segment after a transient failure
+  retry?: { attempt: number; message: string };
+}
+
+export interface AudioSegment {
+  blob: Blob;
+  mimeType: string;
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+}
+
+const decodeAudio = async (blob: Blob): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, CHUNKING.sampleRate);
+  return context.decodeAudioData(await blob.arrayBuffer());
+};
+
+// Finds the quietest 100 ms window around `target` so cuts fall between words
+const quietestPoint = (samples: Float32Array, target: number, radius: number, sampleRate: number) => {
+  const windowSize = Math.floor(sampleRate / 10);
+  const from = Math.max(windowSize, target - radius);
+  const to = Math.min(samples.length - windowSize, target + radius);
+  let best = target;
+  let bestEnergy = Infinity;
+  for (let pos = from; pos <= to; pos += windowSize / 2) {
+    let energy = 0;
+    for (let i = pos - windowSize / 2; i < pos + windowSize / 2; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = pos;
+    }
+  }
+  return Math.floor(best);
+};
+
+export const splitBuffer = (buffer: AudioBuffer, segmentSeconds = CHUNKING.segmentSeconds): AudioSegment[] => {
+  const rate = buffer.sampleRate;
+  const samples = mixToMono(buffer, 0, buffer.length);
+  const segmentLength = segmentSeconds * rate;
+  const radius = CHUNKING.boundarySearchSeconds * rate;
+
+  const segments: AudioSegment[] = [];
+  let start = 0;
+  while (start < samples.length) {
+    // Avoid a tiny trailing segment by folding it into the last one
+    let end = samples.length - start <= segmentLength * 1.2
+      ? samples.length
+      : quietestPoint(samples, start + segmentLength, radius, rate);
+    if (end <= start) end = Math.min(samples.length, start + segmentLength);
+    segments.push({
+      blob: encodeWav(samples.subarray(start, end), rate),
+      mimeType: 'audio/wav',
+      start: start / rate,
+      end: end / rate
+    });
+    start = end;
+  }
+  return segments;
+};
+
+// Two recordings back to back as one WAV, with the time the second starts at
+export const joinAudio = async (first: Blob, second: Blob): Promise<{ blob: Blob; offset: number }> => {
+  const [a, b] = await Promise.all([decodeAudio(first), decodeAudio(second)]);
+  const samples = new Float32Array(a.length + b.length);
+  samples.set(mixToMono(a, 0, a.length));
+  samples.set(mixToMono(b, 0, b.length), a.length);
+  return { blob: encodeWav(samples, CHUNKING.sampleRate), offset: a.length / CHUNKING.sampleRate };
+};
+
+export const splitAudio = async (blob: Blob, segmentSeconds = CHUNKING.segmentSeconds): Promise<AudioSegment[]> =>
+  splitBuffer(await decodeAudio(blob), segmentSeconds);
+
+// Segments already done followed by whatever has streamed in for the current one
+const combinePartial = (done: TransformationResult | null, partial: PartialResult): PartialResult => {
+  if (!done) return partial;
+  const join = (a: string, b: string | undefined, separator: string) => (b ? `${a}${separator}${b}` : a);
+  return {
+    originalTranscription: join(done.originalTranscription, partial.originalTranscription, '\n'),
+    formalText: join(done.formalText, partial.formalText, '\n\n'),
+    mindMap: partial.mindMap ? mergeMindMaps(done.mindMap, partial.mindMap) : done.mindMap
+  };
+};
+
+// One segment, retried after transient failures with progress reporting the wait
+const transformWithRetry = async (
+  transformer: SpeechTransformer,
+  blob: Blob,
+  mimeType: string,
+  options: TransformOptions,
+  progress: ProcessingProgress,
+  onProgress?: (progress: ProcessingProgress) => void
+) => {
+  const audioBase64 = await blobToBase64(blob);
+  return withRetry(() => transformer.transform(audioBase64, mimeType, options), {
+    signal: options.signal,
+    onRetry: (error, attempt) => onProgress?.({ ...progress, retry: { attempt, message: error.message } })
+  });
+};
+
+const needsChunking = (blob: Blob, duration: number) =>
+  blob.size > CHUNKING.inlineMaxBytes || duration > CHUNKING.segmentSeconds;
+
+// Sends short audio as-is; long audio is split into segments that are
+// transformed one after another and merged into a single result. Meeting
+// minutes are written into the text and map once, after merging. A duration
+// of 0 means unknown, e.g. MediaRecorder WebM files without a duration header;
+// such audio is decoded to measure it before deciding.
+export const transformAudio = async (
+  transformer: SpeechTransformer,
+  blob: Blob,
+  mimeType: string,
+  duration: number,
+  options: TransformOptions = {},
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<TransformationResult> => {
+  const language = options.preferences?.language;
+  let decoded: AudioBuffer | null = null;
+  if (duration <= 0 && !needsChunking(blob, duration)) {
+    onProgress?.({ completed: 0, total: 0, stage: 'decoding' });
+    try {
+      decoded = await decodeAudio(blob);
+      duration = decoded.duration;
+    } catch (err) {
+      // Small enough to send whole; the model may still understand it
+      console.error("音频解码失败", err);
+    }
+    throwIfAborted(options.signal);
+  }
+  if (!needsChunking(blob, duration)) {
+    const progress: ProcessingProgress = { completed: 0, total: 1, stage: 'transforming' };
+    onProgress?.(progress);
+    return applyMinutes(await transformWithRetry(transformer, blob, mimeType, options, progress, onProgress), language);
+  }
+
+  if (!decoded) onProgress?.({ completed: 0, total: 0, stage: 'decoding' });
+  let segments: AudioSegment[];
+  try {
+    segments = decoded ? splitBuffer(decoded) : await splitAudio(blob);
+  } catch (err) {
+    console.error("音频解码失败", err);
+    const detail = "无法解码音频，因此无法分段处理较长的录音";
+    if (blob.size > CHUNKING.inlineMaxBytes) throw new TransformError('audio_too_large', detail);
+    throw new Error(`${detail}。`);
+  }
+
+  const results: TransformationResult[] = [];
+  for (const [index, segment] of segments.entries()) {
+    throwIfAborted(options.signal);
+    const progress: ProcessingProgress = { completed: index, total: segments.length, stage: 'transforming' };
+    onProgress?.(progress);
+    const done = results.length > 0 ? mergeSegmentResults(results, segments.map(s => s.start)) : null;
+    const onPartial = options.onPartial && ((partial: PartialResult) => options.onPartial!(combinePartial(done, partial)));
+    results.push(await transformWithRetry(transformer, segment.blob, segment.mimeType, { ...options, onPartial }, progress, onProgress));
+  }
+
+  onProgress?.({ completed: segments.length, total: segments.length, stage: 'merging' });
+  return applyMinutes(mergeSegmentResults(results, segments.map(s => s.start)), language);
+};
+
+// Typed notes need no splitting, only the retries and the minutes
+export const transformNotes = async (
+  transformer: SpeechTransformer,
+  text: string,
+  options: TransformOptions = {},
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<TransformationResult> => {
+  const progress: ProcessingProgress = { completed: 0, total: 1, stage: 'writing' };
+  onProgress?.(progress);
+  const result = await withRetry(() => transformer.transformText(text, options), {
+    signal: options.signal,
+    onRetry: (error, attempt) => onProgress?.({ ...progress, retry: { attempt, message: error.message } })
+  });
+  return applyMinutes(result, options.preferences?.language);
+};
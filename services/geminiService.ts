@@ -1,70 +1,253 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { OutputPreferences, ProviderConfig, RefinementInstruction, SpeechTransformer, TransformOptions, TransformationResult } from "../types";
+import { DEFAULT_PREFERENCES, buildAudioPrompt, buildRefinePrompt, buildTranscriptPrompt, languageHint } from "./prompt";
+import { parseModelJson, parsePartialResult, parseTransformationResult, validateRefinedResult, validateTransformationResult } from "./resultValidator";
+import { TransformError, classifyError, verificationError } from "./transformErrors";
+import { abortError } from "../utils/abort";
+import { splitSentences } from "../utils/sourceSpans";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { TransformationResult } from "../types";
-
-export const transformSpeech = async (audioBase64: string, mimeType: string): Promise<TransformationResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-  
-  const prompt = `
-    任务：处理附带的音频文件。
-    1. 准确转录音频内容。
-    2. 将转录内容改写为正式、专业且逻辑结构清晰的文档。必须使用简体中文。
-    3. 确保语气客观、逻辑清晰、语言简练。
-    4. 创建一个逻辑脑图结构（层次结构），捕捉正式文本中的要点及其支持细节。脑图中的所有标签必须使用简体中文。
-    
-    Response Format: JSON object with "originalTranscription", "formalText", and "mindMap" fields. All text content must be in Simplified Chinese.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          { inlineData: { data: audioBase64, mimeType } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            originalTranscription: { type: Type.STRING, description: "音频的原始转录文本（简体中文）" },
-            formalText: { type: Type.STRING, description: "润色后的正式文本（简体中文）" },
-            mindMap: {
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+const LEVEL_NAMES = ['一', '二', '三', '四', '五', '六', '七', '八'];
+
+// The response schema cannot reference itself, so the node schema is nested
+// explicitly down to the chosen depth.
+const buildMindMapSchema = (level: number, maxDepth: number, maxBranches: number, hint: string): Schema => {
+  const description = level === 0 ? `中心主题或标题${hint}` : `${LEVEL_NAMES[level - 1] || level}级节点${hint}`;
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING, description },
+      sources: { type: Type.ARRAY, description: "支撑该节点的转录句子编号", items: { type: Type.INTEGER } },
+      status: { type: Type.STRING, format: "enum", enum: ["todo", "done"], description: "仅用于待办事项" },
+      priority: { type: Type.STRING, format: "enum", enum: ["high", "medium", "low"] },
+      icon: { type: Type.STRING, format: "enum", enum: ["risk", "action", "decision", "question", "idea"] }
+    },
+    required: ["label"],
+    propertyOrdering: ["label", "sources", "status", "priority", "icon", "children"]
+  };
+  if (level < maxDepth) {
+    schema.properties!.children = {
+      type: Type.ARRAY,
+      maxItems: String(maxBranches),
+      items: buildMindMapSchema(level + 1, maxDepth, maxBranches, hint)
+    };
+  }
+  return schema;
+};
+
+// Finish reasons that mean the output was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+const PARAGRAPH_SOURCES_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: "正式文本每个段落对应的转录句子编号",
+  items: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+};
+
+// Throws when a response chunk says the output was withheld
+const checkBlocked = (chunk: GenerateContentResponse) => {
+  const blockReason = chunk.promptFeedback?.blockReason;
+  const finishReason = chunk.candidates?.[0]?.finishReason;
+  if (blockReason) throw new TransformError('safety_blocked', blockReason);
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new TransformError('safety_blocked', finishReason);
+};
+
+const MINUTES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    attendees: { type: Type.ARRAY, items: { type: Type.STRING } },
+    decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING, description: "负责人" },
+          due: { type: Type.STRING, description: "截止时间" }
+        },
+        required: ["task"]
+      }
+    }
+  },
+  required: ["attendees", "decisions", "actionItems"]
+};
+
+// For audio the model also writes the transcript, its timed segments and the
+// speakers; typed notes already are the transcript.
+const resultSchema = (preferences: OutputPreferences, fromAudio: boolean): Schema => {
+  const hint = languageHint(preferences.language);
+  const minutes = preferences.template.minutes ? ["minutes"] : [];
+  const audioProperties: Record<string, Schema> = {
+    originalTranscription: { type: Type.STRING, description: preferences.language === 'zh-CN' ? `音频的原始转录文本${hint}` : "音频的原始转录文本（保持说话者的原始语言）" },
+    segments: {
+      type: Type.ARRAY,
+      description: "逐句切分的转录文本及其在音频中的时间",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          start: { type: Type.NUMBER, description: "开始时间（秒）" },
+          end: { type: Type.NUMBER, description: "结束时间（秒）" },
+          speaker: { type: Type.STRING, description: "说话人编号，如 S1" }
+        },
+        required: ["text", "start", "end", "speaker"]
+      }
+    },
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          name: { type: Type.STRING, description: "能识别时填写姓名" }
+        },
+        required: ["id"]
+      }
+    }
+  };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      ...(fromAudio ? audioProperties : {}),
+      formalText: { type: Type.STRING, description: `润色后的正式文本，Markdown 格式${hint}` },
+      paragraphSources: PARAGRAPH_SOURCES_SCHEMA,
+      mindMap: buildMindMapSchema(0, preferences.maxDepth, preferences.maxBranches, hint),
+      ...(preferences.template.minutes ? { minutes: MINUTES_SCHEMA } : {})
+    },
+    required: [...(fromAudio ? ["originalTranscription", "segments"] : []), "formalText", "paragraphSources", "mindMap", ...minutes],
+    // The map comes last so text can be shown while it is generated
+    propertyOrdering: [...(fromAudio ? ["originalTranscription", "segments", "speakers"] : []), "formalText", "paragraphSources", ...minutes, "mindMap"]
+  };
+};
+
+export const createGeminiTransformer = (config: ProviderConfig): SpeechTransformer => {
+  // Through the proxy the SDK still wants a key; the proxy replaces it
+  const client = () => {
+    if (!config.apiKey && !config.proxy) throw new TransformError('missing_api_key');
+    return new GoogleGenAI({
+      apiKey: config.apiKey || 'proxy',
+      ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {})
+    });
+  };
+
+  const fail = (error: unknown, signal?: AbortSignal): never => {
+    if (signal?.aborted) throw abortError();
+    console.error("Gemini API Error:", error);
+    throw classifyError(error);
+  };
+
+  // Streams a JSON response and reports each partial parse
+  const stream = async (ai: GoogleGenAI, request: GenerateContentParameters, options: TransformOptions): Promise<string> => {
+    let text = '';
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+      checkBlocked(chunk);
+      text += chunk.text || '';
+      const partial = options.onPartial && parsePartialResult(text);
+      if (partial) options.onPartial!(partial);
+    }
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    transform: async (audioBase64: string, mimeType: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+      const ai = client();
+      const preferences = options.preferences || DEFAULT_PREFERENCES;
+
+      try {
+        const text = await stream(ai, {
+          model: config.model || DEFAULT_MODEL,
+          contents: {
+            parts: [
+              { inlineData: { data: audioBase64, mimeType } },
+              { text: buildAudioPrompt(preferences) }
+            ]
+          },
+          config: {
+            abortSignal: options.signal,
+            responseMimeType: "application/json",
+            responseSchema: resultSchema(preferences, true)
+          }
+        }, options);
+        return parseTransformationResult(text, { maxDepth: preferences.maxDepth });
+      } catch (error) {
+        return fail(error, options.signal);
+      }
+    },
+
+    transformText: async (notes: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+      const ai = client();
+      const preferences = options.preferences || DEFAULT_PREFERENCES;
+      const sentences = splitSentences(notes);
+
+      try {
+        const text = await stream(ai, {
+          model: config.model || DEFAULT_MODEL,
+          contents: { parts: [{ text: buildTranscriptPrompt(notes, preferences, sentences.map(s => s.text)) }] },
+          config: {
+            abortSignal: options.signal,
+            responseMimeType: "application/json",
+            responseSchema: resultSchema(preferences, false)
+          }
+        }, {
+          ...options,
+          onPartial: options.onPartial && (partial => options.onPartial!({ ...partial, originalTranscription: notes }))
+        });
+        return validateTransformationResult(
+          { ...(parseModelJson(text) as Record<string, unknown>), originalTranscription: notes },
+          { maxDepth: preferences.maxDepth, transcriptSegments: sentences }
+        );
+      } catch (error) {
+        return fail(error, options.signal);
+      }
+    },
+
+    refine: async (result: TransformationResult, instruction: RefinementInstruction, options: TransformOptions = {}): Promise<TransformationResult> => {
+      const ai = client();
+      const preferences = options.preferences || DEFAULT_PREFERENCES;
+
+      try {
+        const response = await ai.models.generateContent({
+          model: config.model || DEFAULT_MODEL,
+          contents: {
+            parts: [
+              ...('audioBase64' in instruction ? [{ inlineData: { data: instruction.audioBase64, mimeType: instruction.mimeType } }] : []),
+              { text: buildRefinePrompt(result, 'text' in instruction ? instruction.text : null, preferences) }
+            ]
+          },
+          config: {
+            abortSignal: options.signal,
+            responseMimeType: "application/json",
+            // No language hints: the instruction may be to translate
+            responseSchema: {
               type: Type.OBJECT,
               properties: {
-                label: { type: Type.STRING, description: "中心主题或标题（简体中文）" },
-                children: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      label: { type: Type.STRING, description: "一级节点（简体中文）" },
-                      children: {
-                        type: Type.ARRAY,
-                        items: {
-                          type: Type.OBJECT,
-                          properties: { label: { type: Type.STRING, description: "二级节点（简体中文）" } }
-                        }
-                      }
-                    },
-                    required: ["label"]
-                  }
-                }
+                formalText: { type: Type.STRING, description: "修订后的正式文本，Markdown 格式" },
+                paragraphSources: PARAGRAPH_SOURCES_SCHEMA,
+                mindMap: buildMindMapSchema(0, preferences.maxDepth, preferences.maxBranches, '')
               },
-              required: ["label"]
+              required: ["formalText", "paragraphSources", "mindMap"],
+              propertyOrdering: ["formalText", "paragraphSources", "mindMap"]
             }
-          },
-          required: ["originalTranscription", "formalText", "mindMap"]
-        }
+          }
+        });
+        checkBlocked(response);
+        return validateRefinedResult(parseModelJson(response.text), result, { maxDepth: preferences.maxDepth });
+      } catch (error) {
+        return fail(error, options.signal);
       }
-    });
+    },
 
-    const result = JSON.parse(response.text || '{}');
-    return result as TransformationResult;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("处理音频失败。请重试。");
-  }
+    // Looking up the model checks the key and the model name in one request
+    verify: async (signal?: AbortSignal): Promise<void> => {
+      const ai = client();
+      try {
+        await ai.models.get({ model: config.model || DEFAULT_MODEL, config: { abortSignal: signal } });
+      } catch (error) {
+        throw verificationError(error, config.proxy);
+      }
+    }
+  };
 };
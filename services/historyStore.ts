@@ -0,0 +1,119 @@
+import { HistoryEntry, Revision, TransformationResult } from "../types";
+import { STORES, createId, withStore } from "./database";
+
+export const HISTORY_LIMITS = {
+  maxEntries: 200,
+  maxBytes: 500 * 1024 * 1024,
+  // Start pruning once the origin uses this share of its browser quota
+  maxQuotaRatio: 0.8
+};
+
+export const estimateEntrySize = (entry: HistoryEntry) =>
+  (entry.audio?.size || 0) + JSON.stringify([entry.result, entry.revisions || []]).length * 2;
+
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(STORES.history, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> =>
+  withStore<HistoryEntry | undefined>(STORES.history, 'readonly', store => store.get(id));
+
+export const saveHistoryEntry = async (
+  data: Omit<HistoryEntry, 'id' | 'createdAt' | 'title'> & Partial<Pick<HistoryEntry, 'title'>>
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    ...data,
+    id: createId(),
+    createdAt: Date.now(),
+    title: data.title?.trim() || data.result.mindMap.label || '未命名记录'
+  };
+  await withStore(STORES.history, 'readwrite', store => store.put(entry));
+  await enforceHistoryQuota().catch(err => console.warn("历史记录清理失败", err));
+  return entry;
+};
+
+const updateHistoryEntry = async (id: string, patch: Partial<HistoryEntry>): Promise<HistoryEntry> => {
+  const entry = await getHistoryEntry(id);
+  if (!entry) throw new Error("历史记录不存在。");
+  const updated = { ...entry, ...patch, id };
+  await withStore(STORES.history, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const renameHistoryEntry = (id: string, title: string) =>
+  updateHistoryEntry(id, { title: title.trim() || '未命名记录' });
+
+export const createRevision = (result: TransformationResult, instruction = ''): Revision => ({
+  id: createId(),
+  createdAt: Date.now(),
+  instruction,
+  result
+});
+
+// Written together so concurrent updates cannot undo one another
+export const updateHistoryResult = (id: string, result: TransformationResult, revisions?: Revision[]) =>
+  updateHistoryEntry(id, revisions ? { result, revisions } : { result });
+
+// The recording kept with an entry, e.g. after a new one was appended to it
+export const updateHistoryAudio = (id: string, audio: Blob, mimeType: string, duration: number) =>
+  updateHistoryEntry(id, { audio, mimeType, duration });
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(STORES.history, 'readwrite', store => store.delete(id));
+};
+
+export const searchHistoryEntries = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter(e =>
+    e.title.toLowerCase().includes(q) ||
+    e.result.formalText.toLowerCase().includes(q) ||
+    e.result.originalTranscription.toLowerCase().includes(q)
+  );
+};
+
+export interface StorageUsage {
+  entries: number;
+  bytes: number;
+  quota?: number;
+  usage?: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const entries = await listHistoryEntries();
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + estimateEntrySize(e), 0),
+    quota: estimate.quota,
+    usage: estimate.usage
+  };
+};
+
+// Deletes the oldest entries until the history fits the configured limits.
+// Returns the number of entries removed.
+export const enforceHistoryQuota = async (limits = HISTORY_LIMITS): Promise<number> => {
+  const entries = await listHistoryEntries();
+  let bytes = entries.reduce((sum, e) => sum + estimateEntrySize(e), 0);
+  let count = entries.length;
+
+  let overQuota = false;
+  if (navigator.storage?.estimate) {
+    const { usage, quota } = await navigator.storage.estimate();
+    overQuota = !!usage && !!quota && usage / quota > limits.maxQuotaRatio;
+  }
+
+  let removed = 0;
+  // Oldest first; always keep the newest entry
+  for (let i = entries.length - 1; i > 0; i--) {
+    if (count <= limits.maxEntries && bytes <= limits.maxBytes && !overQuota) break;
+    await deleteHistoryEntry(entries[i].id);
+    bytes -= estimateEntrySize(entries[i]);
+    count--;
+    removed++;
+    // Browser usage estimates refresh lazily, so over the quota ratio we drop the oldest quarter
+    overQuota = overQuota && removed < Math.ceil(entries.length / 4);
+  }
+  return removed;
+};
@@ -0,0 +1,23 @@
+import { SpeechTransformer, TransformOptions, TransformationResult } from "../types";
+import { TransformError } from "./transformErrors";
+import { throwIfAborted } from "../utils/abort";
+import { outlineText } from "../utils/heuristicOutliner";
+
+// Rule-based outlining of typed notes, for when no model is configured or the
+// device is offline. It cannot listen, so audio and revisions are refused.
+export const createLocalTransformer = (): SpeechTransformer => ({
+  id: 'local',
+  online: false,
+  transform: async (): Promise<TransformationResult> => {
+    throw new TransformError('unsupported', "离线整理只能处理文字，请粘贴或输入笔记");
+  },
+
+  transformText: async (text: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+    throwIfAborted(options.signal);
+    return outlineText(text, options.preferences);
+  },
+
+  refine: async (): Promise<TransformationResult> => {
+    throw new TransformError('unsupported', "离线整理无法按要求修订，请切换到在线模型");
+  }
+});
@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { AppStatus, PartialResult } from '../types';
+import { statusReducer, StatusEvent } from '../utils/appStatus';
+import { isAbortError } from '../utils/abort';
+import { ProcessingProgress, transformAudio, transformNotes } from './chunkedProcessor';
+import { createMockTransformer } from './mockService';
+import { BUILT_IN_TEMPLATES, DEFAULT_PREFERENCES } from './prompt';
+
+const recording = () => new Blob([new Uint8Array(2048)], { type: 'audio/webm' });
+
+// Replays the status events App dispatches around each step and returns the
+// screen they lead to; App itself is not rendered
+const run = (...events: StatusEvent[]) => events.reduce(statusReducer, AppStatus.IDLE);
+
+describe('mock provider through the processing pipeline and status reducer', () => {
+  it('records, processes and shows a result with streamed partials', async () => {
+    const transformer = createMockTransformer(0);
+    const partials: PartialResult[] = [];
+    const stages: ProcessingProgress[] = [];
+    let status = run({ type: 'RECORDING_STARTED' }, { type: 'PROCESSING_STARTED' });
+    expect(status).toBe(AppStatus.PROCESSING);
+
+    const result = await transformAudio(
+      transformer, recording(), 'audio/webm', 14,
+      { preferences: DEFAULT_PREFERENCES, onPartial: p => partials.push(p) },
+      p => stages.push(p)
+    );
+    status = statusReducer(status, { type: 'RESULT_READY' });
+
+    expect(status).toBe(AppStatus.RESULT);
+    expect(stages[0]).toEqual({ completed: 0, total: 1, stage: 'transforming' });
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1].mindMap?.label).toBe('项目周会');
+    expect(result.formalText).toContain('## 项目进度');
+    expect(result.mindMap.children!.map(c => c.label)).toEqual(['项目进度', '后续计划', '风险提示']);
+    expect(result.segments).toHaveLength(4);
+    expect(result.paragraphSources).toHaveLength(3);
+    expect(result.speakers!.map(s => s.id)).toEqual(['S1', 'S2']);
+    expect(result.minutes).toBeUndefined();
+  });
+
+  it('writes meeting minutes into the result when the template asks for them', async () => {
+    const minutesTemplate = BUILT_IN_TEMPLATES.find(t => t.minutes)!;
+    const result = await transformAudio(
+      createMockTransformer(0), recording(), 'audio/webm', 14,
+      { preferences: { ...DEFAULT_PREFERENCES, template: minutesTemplate } }
+    );
+    expect(result.minutes!.actionItems[0].task).toBe('补充测试人手');
+  });
+
+  it('refines the result it is given', async () => {
+    const transformer = createMockTransformer(0);
+    const result = await transformAudio(transformer, recording(), 'audio/webm', 14);
+    const refined = await transformer.refine(result, { text: '加上预算' });
+    expect(refined.formalText.startsWith('（模拟修订：加上预算）')).toBe(true);
+    expect(refined.mindMap.children!.map(c => c.label)).toContain('修订：加上预算');
+    expect(refined.originalTranscription).toBe(result.originalTranscription);
+  });
+
+  it('outlines typed notes', async () => {
+    const status = run({ type: 'PROCESSING_STARTED' });
+    const result = await transformNotes(createMockTransformer(0), '# 周会\n\n- 进度正常\n- 下周测试');
+    expect(statusReducer(status, { type: 'RESULT_READY' })).toBe(AppStatus.RESULT);
+    expect(result.mindMap.children!.length).toBeGreaterThan(0);
+  });
+
+  it('goes back to where it started when processing is cancelled', async () => {
+    const controller = new AbortController();
+    const pending = transformAudio(createMockTransformer(50), recording(), 'audio/webm', 14, { signal: controller.signal });
+    controller.abort();
+    const error = await pending.catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+
+    const started = [{ type: 'RECORDING_STARTED' }, { type: 'PROCESSING_STARTED' }] as StatusEvent[];
+    expect(run(...started, { type: 'CANCELLED', hasResult: false })).toBe(AppStatus.IDLE);
+    expect(run({ type: 'RESULT_READY' }, ...started, { type: 'CANCELLED', hasResult: true })).toBe(AppStatus.RESULT);
+  });
+
+  it('ignores events that do not fit the screen', () => {
+    expect(run({ type: 'RECORDING_STARTED' }, { type: 'RESULT_READY' })).toBe(AppStatus.RECORDING);
+    expect(run({ type: 'OPEN_SETTINGS' }, { type: 'RECORDING_STARTED' })).toBe(AppStatus.SETTINGS);
+    expect(run({ type: 'OPEN_HISTORY' }, { type: 'PROCESSING_STARTED' })).toBe(AppStatus.HISTORY);
+  });
+
+  it('shows a result opened from the history panel', () => {
+    expect(run({ type: 'OPEN_HISTORY' }, { type: 'RESULT_READY' })).toBe(AppStatus.RESULT);
+  });
+});
@@ -0,0 +1,100 @@
+import { MindMapNode, RefinementInstruction, SpeechTransformer, TransformOptions, TransformationResult, TranscriptSegment } from "../types";
+import { parsePartialResult, validateRefinedResult, validateTransformationResult } from "./resultValidator";
+import { throwIfAborted } from "../utils/abort";
+import { indicesForSpans } from "../utils/sourceSpans";
+import { outlineText } from "../utils/heuristicOutliner";
+
+const MOCK_DELAY_MS = 400;
+// The response is "streamed" in this many pieces spread over the delay
+const MOCK_CHUNKS = 8;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Like the Gemini schema, keeps only the markers a model may suggest
+const toModelNode = (node: MindMapNode, segments: TranscriptSegment[]): object => ({
+  label: node.label,
+  status: node.status,
+  priority: node.priority,
+  icon: node.icon,
+  sources: indicesForSpans(node.sources, segments),
+  children: (node.children || []).map(c => toModelNode(c, segments))
+});
+
+// Deterministic stand-in for a real model: the same audio always yields the
+// same result, so the whole App flow can be exercised offline.
+export const createMockTransformer = (delayMs: number = MOCK_DELAY_MS): SpeechTransformer => ({
+  id: 'mock',
+  online: false,
+  transform: async (audioBase64: string, mimeType: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+    const sizeKb = Math.ceil((audioBase64.length * 3) / 4 / 1024);
+    // Shaped like a model response so sources go through the same resolution
+    const sentences = [
+      { text: `（模拟转录）收到一段 ${sizeKb} KB 的 ${mimeType} 音频。`, start: 0, end: 3, speaker: "S1" },
+      { text: "我们先说一下项目进度，核心功能已经做完了。", start: 3, end: 7, speaker: "S1" },
+      { text: "下一步主要是测试，然后准备上线。", start: 7, end: 10.5, speaker: "S2" },
+      { text: "风险是人手可能不够，进度会受影响。", start: 10.5, end: 14, speaker: "S1" }
+    ];
+    const response = {
+      originalTranscription: sentences.map(s => s.text).join(''),
+      segments: sentences,
+      speakers: [{ id: "S1", name: "" }, { id: "S2", name: "" }],
+      minutes: options.preferences?.template.minutes
+        ? {
+          attendees: ["S1", "S2"],
+          decisions: ["先完成测试再上线"],
+          actionItems: [{ task: "补充测试人手", owner: "S1", due: "下周五" }]
+        }
+        : undefined,
+      formalText: [
+        "## 项目进度",
+        "当前项目整体按计划推进，核心功能已完成开发。",
+        "",
+        "## 后续计划",
+        "下一阶段将重点完成测试与上线准备工作。",
+        "",
+        "## 风险提示",
+        "需关注资源投入不足可能导致的进度延误。"
+      ].join('\n'),
+      paragraphSources: [[1], [2], [3]],
+      mindMap: {
+        label: "项目周会",
+        sources: [1, 2, 3],
+        children: [
+          { label: "项目进度", sources: [1], children: [{ label: "核心功能已完成", sources: [1] }] },
+          { label: "后续计划", sources: [2], children: [{ label: "测试", status: "todo", sources: [2] }, { label: "上线准备", status: "todo", priority: "high", sources: [2] }] },
+          { label: "风险提示", icon: "risk", sources: [3], children: [{ label: "资源投入不足", priority: "high", sources: [3] }] }
+        ]
+      }
+    };
+
+    const text = JSON.stringify(response);
+    for (let i = 1; i <= MOCK_CHUNKS; i++) {
+      if (delayMs > 0) await wait(delayMs / MOCK_CHUNKS);
+      throwIfAborted(options.signal);
+      const partial = options.onPartial && parsePartialResult(text.slice(0, Math.ceil((text.length * i) / MOCK_CHUNKS)));
+      if (partial) options.onPartial!(partial);
+    }
+    return validateTransformationResult(response);
+  },
+
+  // Typed notes go through the offline outliner after the same delay
+  transformText: async (text: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+    if (delayMs > 0) await wait(delayMs);
+    throwIfAborted(options.signal);
+    return outlineText(text, options.preferences);
+  },
+
+  // Notes the instruction at the top of the text and as a new branch
+  refine: async (result: TransformationResult, instruction: RefinementInstruction, options: TransformOptions = {}): Promise<TransformationResult> => {
+    if (delayMs > 0) await wait(delayMs);
+    throwIfAborted(options.signal);
+    const text = 'text' in instruction ? instruction.text : '口述的修改要求';
+    const segments = result.segments || [];
+    const root = toModelNode(result.mindMap, segments) as { children: object[] };
+    return validateRefinedResult({
+      formalText: `（模拟修订：${text}）\n\n${result.formalText}`,
+      paragraphSources: [[], ...(result.paragraphSources || []).map(spans => indicesForSpans(spans, segments))],
+      mindMap: { ...root, children: [...root.children, { label: `修订：${text}` }] }
+    }, result, { maxDepth: options.preferences?.maxDepth });
+  }
+});
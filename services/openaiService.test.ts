@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAITransformer } from './openaiService';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// A streamed completion, sent as server-sent events in a few pieces
+const completion = (content: object) => {
+  const text = JSON.stringify(content);
+  const pieces = [text.slice(0, 10), text.slice(10, 40), text.slice(40)];
+  const events = pieces.map(p => `data: ${JSON.stringify({ choices: [{ delta: { content: p } }] })}\n\n`);
+  return new Response([...events, 'data: [DONE]\n\n'].join(''), { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const RESULT = { formalText: '正文', mindMap: { label: '根', children: [{ label: '要点' }] } };
+
+// Answers each route in turn from the given responses and records the requests
+const mockFetch = (routes: Record<string, (() => Response)[]>) => {
+  const requests: { path: string; body: RequestInit['body'] }[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    const path = new URL(url).pathname.replace(/^\/v1/, '');
+    requests.push({ path, body: init.body });
+    const next = routes[path]?.shift();
+    if (!next) throw new Error(`unexpected request to ${path}`);
+    return next();
+  }));
+  return requests;
+};
+
+const transformer = () => createOpenAITransformer({ provider: 'openai', apiKey: 'test-key' });
+const audio = btoa('not really audio');
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible completions', () => {
+  it('reads servers that answer with a plain JSON body', async () => {
+    mockFetch({
+      '/audio/transcriptions': [() => json({ text: '第一句。' })],
+      '/chat/completions': [() => json({ choices: [{ message: { content: JSON.stringify(RESULT) } }] })]
+    });
+    const result = await transformer().transform(audio, 'audio/webm');
+    expect(result.formalText).toBe('正文');
+    expect(result.mindMap.children![0].label).toBe('要点');
+  });
+
+  it('skips keep-alives and malformed stream lines', async () => {
+    const text = JSON.stringify(RESULT);
+    const body = [
+      ': keep-alive\n\n',
+      'data: {"choices": [{"delta": {"content": ' + JSON.stringify(text.slice(0, 20)) + '}}]}\n\n',
+      'data: {not json\n\n',
+      'data: \n\n',
+      'data: {"choices": [{"delta": {"content": ' + JSON.stringify(text.slice(20)) + '}}]}\n\n',
+      'data: [DONE]\n\n'
+    ].join('');
+    mockFetch({
+      '/audio/transcriptions': [() => json({ text: '第一句。' })],
+      '/chat/completions': [() => new Response(body, { headers: { 'Content-Type': 'text/event-stream; charset=utf-8' } })]
+    });
+    const result = await transformer().transform(audio, 'audio/webm');
+    expect(result.formalText).toBe('正文');
+  });
+
+  it('reads a last event that has no newline after it', async () => {
+    const text = JSON.stringify(RESULT);
+    const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+    const body = `${event(text.slice(0, 20))}\n\n${event(text.slice(20))}`;
+    mockFetch({
+      '/audio/transcriptions': [() => json({ text: '第一句。' })],
+      '/chat/completions': [() => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })]
+    });
+    const result = await transformer().transform(audio, 'audio/webm');
+    expect(result.mindMap.children![0].label).toBe('要点');
+  });
+});
+
+describe('OpenAI-compatible transcription', () => {
+  it('keeps the timings verbose_json provides', async () => {
+    mockFetch({
+      '/audio/transcriptions': [() => json({ text: '第一句。第二句。', segments: [{ text: '第一句。', start: 0, end: 1.5 }, { text: '第二句。', start: 1.5, end: 3 }] })],
+      '/chat/completions': [() => completion(RESULT)]
+    });
+    const result = await transformer().transform(audio, 'audio/webm');
+    expect(result.segments!.map(s => [s.start, s.end])).toEqual([[0, 1.5], [1.5, 3]]);
+  });
+
+  it('asks again without verbose_json when the server rejects it', async () => {
+    const requests = mockFetch({
+      '/audio/transcriptions': [
+        () => json({ error: { message: "response_format 'verbose_json' is not compatible" } }, 400),
+        () => json({ text: '第一句。第二句。' }),
+        () => json({ text: '第三句。' })
+      ],
+      '/chat/completions': [() => completion(RESULT), () => completion(RESULT)]
+    });
+    const t = transformer();
+    const result = await t.transform(audio, 'audio/webm');
+    expect(result.originalTranscription).toBe('第一句。第二句。');
+    expect(result.segments!.map(s => s.text)).toEqual(['第一句。', '第二句。']);
+
+    // Later recordings go straight to plain JSON
+    await t.transform(audio, 'audio/webm');
+    const formats = requests
+      .filter(r => r.path === '/audio/transcriptions')
+      .map(r => (r.body as FormData).get('response_format'));
+    expect(formats).toEqual(['verbose_json', null, null]);
+  });
+});
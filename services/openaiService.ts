@@ -0,0 +1,198 @@
+import { ProviderConfig, RefinementInstruction, SpeechTransformer, TransformOptions, TransformationResult } from "../types";
+import { base64ToBlob } from "../utils/audioUtils";
+import { buildRefinePrompt, buildTranscriptPrompt } from "./prompt";
+import { TimedText, parseModelJson, parsePartialResult, validateRefinedResult, validateTransformationResult } from "./resultValidator";
+import { TransformError, classifyError, errorForStatus, verificationError } from "./transformErrors";
+import { abortError } from "../utils/abort";
+import { splitSentences } from "../utils/sourceSpans";
+
+export const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+export const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+const extensionFor = (mimeType: string) => {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'webm';
+  return subtype === 'mpeg' ? 'mp3' : subtype;
+};
+
+interface RawSegment {
+  text?: unknown;
+  start?: unknown;
+  end?: unknown;
+}
+
+const seconds = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const timedSegments = (value: unknown): TimedText[] =>
+  Array.isArray(value)
+    ? value
+      .filter((s): s is RawSegment => typeof s === 'object' && s !== null)
+      .flatMap(s => (typeof s.text === 'string' && s.text.trim()
+        ? [{ text: s.text.trim(), start: seconds(s.start), end: seconds(s.end) }]
+        : []))
+    : [];
+
+// Works against api.openai.com as well as self-hosted servers that expose the
+// same /audio/transcriptions and /chat/completions routes.
+export const createOpenAITransformer = (config: ProviderConfig): SpeechTransformer => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  // verbose_json adds per-sentence timings. Models such as gpt-4o-transcribe
+  // and some self-hosted servers reject it with a 400; those are asked again
+  // for plain JSON, remembered for later requests, and the text is split into
+  // sentences without timings.
+  let verboseSupported = true;
+  const transcribe = async (audioBase64: string, mimeType: string, signal?: AbortSignal): Promise<{ text: string; segments: TimedText[] }> => {
+    const request = (verbose: boolean) => {
+      const form = new FormData();
+      form.append('file', base64ToBlob(audioBase64, mimeType), `audio.${extensionFor(mimeType)}`);
+      form.append('model', config.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL);
+      if (verbose) form.append('response_format', 'verbose_json');
+      return fetch(`${baseUrl}/audio/transcriptions`, { method: 'POST', headers, body: form, signal });
+    };
+
+    let response = await request(verboseSupported);
+    if (response.status === 400 && verboseSupported) {
+      const retry = await request(false);
+      if (retry.ok) verboseSupported = false;
+      response = retry;
+    }
+    if (!response.ok) throw errorForStatus(response.status, response.headers.get('Retry-After'));
+    const data: { text?: unknown; segments?: unknown } = await response.json();
+    const text = typeof data.text === 'string' ? data.text : '';
+    const segments = timedSegments(data.segments);
+    return { text, segments: segments.length > 0 ? segments : splitSentences(text) };
+  };
+
+  // Streams the completion as server-sent events and reports each partial parse.
+  // Servers that do not stream answer with a plain JSON body instead.
+  const complete = async (prompt: string, options: TransformOptions): Promise<string> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODEL,
+        response_format: { type: 'json_object' },
+        stream: true,
+        messages: [{ role: 'user', content: prompt }]
+      }),
+      signal: options.signal
+    });
+    if (!response.ok) throw errorForStatus(response.status, response.headers.get('Retry-After'));
+    if (!(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+      const body = await response.json().catch(() => null);
+      const choice = body?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new TransformError('safety_blocked');
+      const content: string = choice?.message?.content || '';
+      const partial = options.onPartial && parsePartialResult(content);
+      if (partial) options.onPartial!(partial);
+      return content;
+    }
+    if (!response.body) throw new TransformError('invalid_response');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let content = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      // A newline at the end flushes a last event the server did not end with one
+      buffer += done ? '\n' : value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        let event: { choices?: { delta?: { content?: string }; finish_reason?: string }[] };
+        try {
+          event = JSON.parse(data);
+        } catch {
+          // Keep-alives and lines some proxies add carry no content
+          continue;
+        }
+        const choice = event.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new TransformError('safety_blocked');
+        content += choice?.delta?.content || '';
+      }
+      const partial = options.onPartial && parsePartialResult(content);
+      if (partial) options.onPartial!(partial);
+      if (done) break;
+    }
+    return content;
+  };
+
+  const fail = (error: unknown, signal?: AbortSignal): never => {
+    if (signal?.aborted) throw abortError();
+    console.error("OpenAI-compatible API Error:", error);
+    throw classifyError(error);
+  };
+
+  // Self-hosted servers often run without authentication
+  const checkApiKey = () => {
+    if (!config.apiKey && !config.proxy && baseUrl === DEFAULT_BASE_URL) throw new TransformError('missing_api_key');
+  };
+
+  // Writes the text and map for a transcript, whether transcribed or typed
+  const formalize = async (text: string, segments: TimedText[], options: TransformOptions): Promise<TransformationResult> => {
+    options.onPartial?.({ originalTranscription: text });
+    const prompt = buildTranscriptPrompt(text, options.preferences, segments.map(s => s.text));
+    const parsed = parseModelJson(await complete(prompt, {
+      ...options,
+      onPartial: options.onPartial && (partial => options.onPartial!({ ...partial, originalTranscription: text }))
+    })) as Record<string, unknown>;
+    // Source offsets refer to the transcript as transcribed, not as echoed back
+    return validateTransformationResult(
+      { ...parsed, originalTranscription: text || parsed?.originalTranscription },
+      { maxDepth: options.preferences?.maxDepth, transcriptSegments: segments }
+    );
+  };
+
+  return {
+    id: 'openai',
+    transform: async (audioBase64: string, mimeType: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+      checkApiKey();
+      try {
+        const { text, segments } = await transcribe(audioBase64, mimeType, options.signal);
+        return await formalize(text, segments, options);
+      } catch (error) {
+        return fail(error, options.signal);
+      }
+    },
+
+    transformText: async (text: string, options: TransformOptions = {}): Promise<TransformationResult> => {
+      checkApiKey();
+      try {
+        return await formalize(text, splitSentences(text), options);
+      } catch (error) {
+        return fail(error, options.signal);
+      }
+    },
+
+    // Spoken instructions are transcribed first, like recordings
+    refine: async (result: TransformationResult, instruction: RefinementInstruction, options: TransformOptions = {}): Promise<TransformationResult> => {
+      checkApiKey();
+      try {
+        const text = 'text' in instruction
+          ? instruction.text
+          : (await transcribe(instruction.audioBase64, instruction.mimeType, options.signal)).text;
+        const prompt = buildRefinePrompt(result, text, options.preferences);
+        const content = await complete(prompt, { ...options, onPartial: undefined });
+        return validateRefinedResult(parseModelJson(content), result, { maxDepth: options.preferences?.maxDepth });
+      } catch (error) {
+        return fail(error, options.signal);
+      }
+    },
+
+    // Listing models needs a valid key but costs nothing
+    verify: async (signal?: AbortSignal): Promise<void> => {
+      checkApiKey();
+      try {
+        const response = await fetch(`${baseUrl}/models`, { headers, signal });
+        if (!response.ok) throw verificationError({ status: response.status }, config.proxy);
+        await response.json();
+      } catch (error) {
+        throw verificationError(error, config.proxy);
+      }
+    }
+  };
+};
@@ -0,0 +1,23 @@
+import { QueuedRecording } from "../types";
+import { STORES, createId, withStore } from "./database";
+
+export const listQueuedRecordings = async (): Promise<QueuedRecording[]> => {
+  const entries = await withStore<QueuedRecording[]>(STORES.queue, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const enqueueRecording = async (
+  data: Pick<QueuedRecording, 'audio' | 'mimeType' | 'duration'>
+): Promise<QueuedRecording> => {
+  const entry: QueuedRecording = { ...data, id: createId(), createdAt: Date.now() };
+  await withStore(STORES.queue, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const updateQueuedRecording = async (entry: QueuedRecording): Promise<void> => {
+  await withStore(STORES.queue, 'readwrite', store => store.put(entry));
+};
+
+export const removeQueuedRecording = async (id: string): Promise<void> => {
+  await withStore(STORES.queue, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,174 @@
+import { DocumentTemplate, MindMapNode, OutputLanguage, OutputPreferences, TransformationResult } from "../types";
+import { indicesForSpans } from "../utils/sourceSpans";
+import { nodeMeta } from "../utils/nodeStyle";
+
+export const OUTPUT_LANGUAGES: { id: OutputLanguage; label: string }[] = [
+  { id: 'zh-CN', label: '简体中文' },
+  { id: 'en', label: 'English' },
+  { id: 'same', label: '与说话语言相同' },
+  { id: 'bilingual', label: '中英双语' }
+];
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'formal_report',
+    name: '正式报告',
+    instructions: '将转录内容改写为正式、专业且逻辑结构清晰的文档。确保语气客观、逻辑清晰、语言简练。',
+    structure: '按主题分节，每节以 "## " 二级标题开头，下面是围绕该主题展开的段落，必要时使用列表。',
+    builtIn: true
+  },
+  {
+    id: 'meeting_minutes',
+    name: '会议纪要',
+    instructions: '将转录内容整理为会议纪要，语气客观中立，只记录事实与结论，不加入主观评价。',
+    structure: '依次包含：会议主题、讨论要点。参会人员、决议和待办事项单独放在 "minutes" 字段中，正文里不要重复。',
+    builtIn: true,
+    minutes: true
+  },
+  {
+    id: 'email',
+    name: '邮件',
+    instructions: '将转录内容改写为一封礼貌、简洁、专业的工作邮件。',
+    structure: '依次包含：主题行（以"主题："开头）、称呼、正文段落、结尾敬语和署名占位符。',
+    builtIn: true
+  },
+  {
+    id: 'bullet_summary',
+    name: '要点摘要',
+    instructions: '将转录内容提炼为简明的要点摘要，去除口语化和重复表述。',
+    structure: '使用以"- "开头的项目符号列表，每条不超过一句话，按重要性排序。',
+    builtIn: true
+  }
+];
+
+export const DEFAULT_PREFERENCES: OutputPreferences = {
+  language: 'zh-CN',
+  template: BUILT_IN_TEMPLATES[0],
+  maxDepth: 3,
+  maxBranches: 6
+};
+
+export const MIND_MAP_DEPTH_OPTIONS = [2, 3, 4, 5, 6];
+export const MIND_MAP_BRANCH_OPTIONS = [3, 4, 6, 8, 12];
+
+const LANGUAGE_RULES: Record<OutputLanguage, { text: string; labels: string; response: string }> = {
+  'zh-CN': {
+    text: '必须使用简体中文。',
+    labels: '脑图中的所有标签必须使用简体中文。',
+    response: 'All text content must be in Simplified Chinese.'
+  },
+  en: {
+    text: '必须使用英文（English）。',
+    labels: '脑图中的所有标签必须使用英文。',
+    response: '"formalText" and all "mindMap" labels must be in English; keep "originalTranscription" in the spoken language.'
+  },
+  same: {
+    text: '使用与说话者相同的语言；如果混合使用多种语言，以主要语言为准。',
+    labels: '脑图标签使用与正式文本相同的语言。',
+    response: 'Use the dominant spoken language for all fields; keep "originalTranscription" verbatim.'
+  },
+  bilingual: {
+    text: '使用中英双语：每个段落先写中文，紧接着给出对应的英文译文。',
+    labels: '脑图标签使用"中文 / English"的双语格式。',
+    response: '"formalText" and "mindMap" labels must be bilingual (Chinese followed by English); keep "originalTranscription" in the spoken language.'
+  }
+};
+
+// Short hint for schema field descriptions, e.g. "（简体中文）"
+export const languageHint = (language: OutputLanguage) =>
+  `（${OUTPUT_LANGUAGES.find(l => l.id === language)?.label || '简体中文'}）`;
+
+// Only audio can be diarized; plain transcripts carry no voice information
+const SPEAKER_RULES = '区分不同的说话人：每句用 "speaker" 标注说话人编号（"S1"、"S2"……，同一个人始终使用同一编号），并在 "speakers" 中列出每个编号，能从内容中识别出姓名时填入 "name"。';
+
+// Asks for the transcript sentences backing every node and paragraph, so the
+// output can be checked against what was actually said
+const SOURCE_RULES = '为脑图的每个节点给出 "sources"（支撑该节点的转录句子编号，从 0 开始），并为正式文本的每个段落（以空行分隔）依次给出 "paragraphSources"（每段对应的句子编号数组）。只引用确实表达了该内容的句子；转录中没有依据的内容不要编造，其 sources 留空。';
+
+const MINUTES_RULES = '另外在 "minutes" 中给出会议纪要的结构化信息："attendees"（参会人员）、"decisions"（形成的决议）、"actionItems"（待办事项，每项包含 "task"，以及提到时的负责人 "owner" 和截止时间 "due"）。人员能从内容中识别出姓名时使用姓名，否则使用说话人编号。没有的项目给出空数组。';
+
+// Badges the map shows; the model only suggests the ones it can infer
+const MARKER_RULES = '可以为脑图节点标注 "status"（"todo" 表示需要跟进的待办事项）、"priority"（"high"/"medium"/"low"）和 "icon"（"risk" 风险、"action" 行动项、"decision" 决定、"question" 待解决的问题、"idea" 想法）。只在内容明确体现时标注，大多数节点不需要。';
+
+// The formal text is rendered and exported as Markdown
+const FORMAT_RULES = '正式文本使用 Markdown 格式：标题用 "## " 或 "### "，列表用 "- " 或 "1. "，强调用 **加粗**；段落之间空一行。不要使用表格、代码块、链接或 HTML。';
+
+const buildSteps = ({ language, template, maxDepth, maxBranches }: OutputPreferences, firstStep: string, sourceStep: string) => {
+  const rules = LANGUAGE_RULES[language];
+  return `
+    1. ${firstStep}
+    2. ${template.instructions}${rules.text}
+    3. 正式文本的结构要求：${template.structure}${FORMAT_RULES}
+    4. 创建一个逻辑脑图结构（层次结构），捕捉正式文本中的要点及其支持细节。${rules.labels}${MARKER_RULES}
+    5. 脑图在中心主题之下最多 ${maxDepth} 级，每个节点最多 ${maxBranches} 个子节点。论证有多层时请按实际逻辑逐级展开，不要压平成同一级；内容简单时不必用满层级。
+    6. ${sourceStep}${template.minutes ? `
+    7. ${MINUTES_RULES}` : ''}
+  `;
+};
+
+export const buildAudioPrompt = (preferences: OutputPreferences = DEFAULT_PREFERENCES) => `
+    任务：处理附带的音频文件。
+    ${buildSteps(preferences, '准确转录音频内容。', `将转录内容逐句放入 "segments"，每句标注它在音频中的开始和结束时间（秒，"start"/"end"），句子编号即其在数组中的位置。${SPEAKER_RULES}${SOURCE_RULES}`)}
+    Response Format: JSON object with "originalTranscription", "segments", "speakers", "formalText", "paragraphSources"${preferences.template.minutes ? ', "minutes"' : ''} and "mindMap" fields. ${LANGUAGE_RULES[preferences.language].response}
+  `;
+
+// Providers without a JSON schema option get the expected shape spelled out instead
+const NODE_SHAPE = `{"label": string, "sources"?: number[], "status"?: "todo" | "done", "priority"?: "high" | "medium" | "low", "icon"?: "risk" | "action" | "decision" | "question" | "idea", "children"?: Node[]}`;
+const JSON_SHAPE = `{"originalTranscription": string, "formalText": string, "paragraphSources": number[][], "mindMap": Node}, where Node is ${NODE_SHAPE}`;
+const MINUTES_SHAPE = `"minutes": {"attendees": string[], "decisions": string[], "actionItems": {"task": string, "owner"?: string, "due"?: string}[]}`;
+
+// The transcript is given as numbered sentences so the model can cite them
+export const buildTranscriptPrompt = (
+  transcription: string,
+  preferences: OutputPreferences = DEFAULT_PREFERENCES,
+  sentences: string[] = []
+) => `
+    任务：处理下面提供的语音转录内容。
+    ${buildSteps(preferences, '将"originalTranscription"原样设置为该转录内容。', `转录内容已按句编号（[0]、[1]……）。${SOURCE_RULES}`)}
+    Response Format: a single JSON object matching ${JSON_SHAPE}${preferences.template.minutes ? `, plus ${MINUTES_SHAPE}` : ''}. Do not wrap it in Markdown. ${LANGUAGE_RULES[preferences.language].response}
+
+    转录内容：
+    ${sentences.length > 0 ? sentences.map((text, i) => `[${i}] ${text}`).join('\n    ') : transcription}
+  `;
+
+// Sources are sent back as sentence numbers, the form the model cites them in
+const toPromptNode = (node: MindMapNode, result: TransformationResult): object => ({
+  label: node.label,
+  ...nodeMeta(node),
+  ...(result.segments ? { sources: indicesForSpans(node.sources, result.segments) } : {}),
+  ...(node.children?.length ? { children: node.children.map(c => toPromptNode(c, result)) } : {})
+});
+
+// `instruction` is null when it was spoken and comes attached as audio
+export const buildRefinePrompt = (
+  result: TransformationResult,
+  instruction: string | null,
+  { maxDepth, maxBranches }: OutputPreferences = DEFAULT_PREFERENCES
+) => {
+  const segments = result.segments || [];
+  const current = {
+    formalText: result.formalText,
+    ...(result.segments
+      ? { paragraphSources: (result.paragraphSources || []).map(spans => indicesForSpans(spans, segments)) }
+      : {}),
+    mindMap: toPromptNode(result.mindMap, result)
+  };
+  return `
+    任务：按照用户的修改要求，修订下面已有的正式文本（formalText）和脑图（mindMap）。
+    1. 只做修改要求中提到的改动，其余内容尽量保持原样。
+    2. 除非修改要求另有说明（例如要求翻译或改变语气），保持原有的语言和文体。
+    3. 正式文本与脑图要保持一致：修改其中一个时，相应地更新另一个。${FORMAT_RULES}
+    4. 脑图在中心主题之下最多 ${maxDepth} 级，每个节点最多 ${maxBranches} 个子节点。节点已有的 "color"、"icon"、"priority"、"status"、"note"、"tags" 原样保留，除非修改要求涉及它们。${MARKER_RULES}${segments.length > 0 ? `
+    5. 转录内容已按句编号（[0]、[1]……）。${SOURCE_RULES}` : ''}
+    Response Format: a single JSON object matching {"formalText": string, "paragraphSources": number[][], "mindMap": Node}, where Node is ${NODE_SHAPE}, keeping any other fields the node already has. Do not wrap it in Markdown.
+
+    修改要求：
+    ${instruction ?? '见附带的音频，其中是用户口述的修改要求。'}
+
+    当前结果：
+    ${JSON.stringify(current)}
+    ${segments.length > 0 ? `
+    转录内容：
+    ${segments.map((s, i) => `[${i}] ${s.text}`).join('\n    ')}` : ''}
+  `;
+};
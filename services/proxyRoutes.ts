@@ -0,0 +1,7 @@
+// Same-origin routes of the local proxy, which forwards requests to the
+// provider and adds the API key on the server. Shared with vite.config.ts, so
+// this module must not import anything.
+export const PROXY_ROUTES = {
+  gemini: '/api/gemini',
+  openai: '/api/openai'
+} as const;
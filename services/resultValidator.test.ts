@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { MindMapNode } from '../types';
+import {
+  ResultValidationError,
+  parseModelJson,
+  parsePartialResult,
+  parseTransformationResult,
+  repairJson,
+  validateTransformationResult
+} from './resultValidator';
+
+const depthOf = (node: MindMapNode): number =>
+  1 + Math.max(0, ...(node.children || []).map(depthOf));
+
+// A chain of nested nodes, `levels` deep including the root
+const chain = (levels: number): object =>
+  levels === 1 ? { label: `L${levels}` } : { label: `L${levels}`, children: [chain(levels - 1)] };
+
+const codeOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof ResultValidationError ? error.code : 'other';
+  }
+  return null;
+};
+
+describe('repairJson', () => {
+  it('closes an open string and open brackets', () => {
+    expect(JSON.parse(repairJson('{"formalText": "正文'))).toEqual({ formalText: '正文' });
+    expect(JSON.parse(repairJson('{"mindMap": {"label": "根", "children": [{"label": "a"}'))).toEqual({
+      mindMap: { label: '根', children: [{ label: 'a' }] }
+    });
+  });
+
+  it('drops a dangling key and trailing comma', () => {
+    expect(JSON.parse(repairJson('{"formalText": "x", "mindMap"'))).toEqual({ formalText: 'x' });
+    expect(JSON.parse(repairJson('{"formalText": "x", "mindMap":'))).toEqual({ formalText: 'x' });
+    expect(JSON.parse(repairJson('{"list": [1, 2,'))).toEqual({ list: [1, 2] });
+  });
+
+  it('does not leave a half escape behind', () => {
+    expect(JSON.parse(repairJson('{"formalText": "a\\'))).toEqual({ formalText: 'a' });
+  });
+
+  it('strips code fences', () => {
+    expect(JSON.parse(repairJson('```json\n{"a": 1}\n```'))).toEqual({ a: 1 });
+  });
+});
+
+describe('parseModelJson', () => {
+  it('rejects empty responses', () => {
+    expect(codeOf(() => parseModelJson(''))).toBe('empty_response');
+    expect(codeOf(() => parseModelJson('  \n'))).toBe('empty_response');
+    expect(codeOf(() => parseModelJson(null))).toBe('empty_response');
+  });
+
+  it('repairs truncated JSON', () => {
+    expect(parseModelJson('{"formalText": "正文", "mindMap": {"label": "根"')).toEqual({
+      formalText: '正文',
+      mindMap: { label: '根' }
+    });
+  });
+
+  it('reports text that cannot be repaired', () => {
+    expect(codeOf(() => parseModelJson('not json at all'))).toBe('malformed_json');
+  });
+});
+
+describe('validateTransformationResult', () => {
+  it('accepts a complete result and normalizes labels', () => {
+    const result = validateTransformationResult({
+      originalTranscription: '原话',
+      formalText: '  正文  ',
+      mindMap: { label: '  根\n主题 ', children: [{ label: 'a' }, { label: '' }, 'x'] }
+    });
+    expect(result.formalText).toBe('正文');
+    expect(result.mindMap).toEqual({ label: '根 主题', children: [{ label: 'a' }] });
+  });
+
+  it('requires an object with text and a mind map', () => {
+    expect(codeOf(() => validateTransformationResult([]))).toBe('not_an_object');
+    expect(codeOf(() => validateTransformationResult({ mindMap: { label: '根' } }))).toBe('missing_formal_text');
+    expect(codeOf(() => validateTransformationResult({ formalText: '正文' }))).toBe('missing_mind_map');
+    expect(codeOf(() => validateTransformationResult({ formalText: '正文', mindMap: { children: [] } }))).toBe('invalid_mind_map');
+  });
+
+  it('reports a mind map missing from a truncated response', () => {
+    expect(codeOf(() => parseTransformationResult('{"formalText": "正文", "mindMap": {"lab'))).toBe('invalid_mind_map');
+    expect(codeOf(() => parseTransformationResult('{"formalText": "正文", "mind'))).toBe('missing_mind_map');
+  });
+
+  it('cuts trees deeper than maxDepth', () => {
+    const value = { formalText: '正文', mindMap: chain(12) };
+    expect(depthOf(validateTransformationResult(value).mindMap)).toBe(7);
+    expect(depthOf(validateTransformationResult(value, { maxDepth: 2 }).mindMap)).toBe(3);
+  });
+
+  it('merges duplicate siblings', () => {
+    const result = validateTransformationResult({
+      formalText: '正文',
+      mindMap: { label: '根', children: [{ label: 'A', children: [{ label: 'x' }] }, { label: 'a', children: [{ label: 'y' }] }] }
+    });
+    expect(result.mindMap.children).toHaveLength(1);
+    expect(result.mindMap.children![0].children!.map(c => c.label)).toEqual(['x', 'y']);
+  });
+});
+
+describe('parsePartialResult', () => {
+  it('returns null until the text can be completed', () => {
+    expect(parsePartialResult('')).toBeNull();
+    expect(parsePartialResult('{"formalText": "a", "n": 1.')).toBeNull();
+  });
+
+  it('reads the fields that have arrived', () => {
+    expect(parsePartialResult('{"originalTranscription": "原话", "formalText": "正')).toEqual({
+      originalTranscription: '原话',
+      formalText: '正'
+    });
+  });
+
+  it('leaves out a leaf that may still be cut off', () => {
+    const partial = parsePartialResult('{"mindMap": {"label": "根", "children": [{"label": "完整"}, {"label": "半')!;
+    expect(partial.mindMap).toEqual({ label: '根', children: [{ label: '完整' }] });
+  });
+
+  // Only the innermost leaf is held back; the depth limit applies to the final result
+  it('does not cut deep partial trees', () => {
+    const text = JSON.stringify({ mindMap: chain(10) });
+    expect(depthOf(parsePartialResult(text.slice(0, -1))!.mindMap!)).toBe(9);
+  });
+});
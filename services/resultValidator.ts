@@ -0,0 +1,306 @@
+import { ActionItem, MeetingMinutes, MindMapNode, PartialResult, SourceSpan, Speaker, TranscriptSegment, TransformationResult } from "../types";
+import { labelKey, mergeMindMaps } from "../utils/mindMapTree";
+import { locateSegments, splitParagraphs, splitSentences, spansFromIndices, unionSpans } from "../utils/sourceSpans";
+import { nameMinutesPeople, resolveSpeakers } from "../utils/speakers";
+import { parseNodeMeta } from "../utils/nodeStyle";
+
+export type ResultValidationCode =
+  | 'empty_response'
+  | 'malformed_json'
+  | 'not_an_object'
+  | 'missing_formal_text'
+  | 'missing_mind_map'
+  | 'invalid_mind_map';
+
+const MESSAGES: Record<ResultValidationCode, string> = {
+  empty_response: "模型未返回任何内容。",
+  malformed_json: "模型返回的内容不是有效的 JSON，且无法自动修复。",
+  not_an_object: "模型返回的数据格式不正确。",
+  missing_formal_text: "模型未返回正式文本。",
+  missing_mind_map: "模型未返回思维导图。",
+  invalid_mind_map: "思维导图结构无效：中心主题缺少标签。"
+};
+
+export class ResultValidationError extends Error {
+  readonly code: ResultValidationCode;
+
+  constructor(code: ResultValidationCode, detail?: string) {
+    super(detail ? `${MESSAGES[code]}（${detail}）` : MESSAGES[code]);
+    this.name = 'ResultValidationError';
+    this.code = code;
+  }
+}
+
+export interface NormalizeOptions {
+  // Levels kept below the root; deeper nodes are dropped
+  maxDepth?: number;
+  // Numeric "sources" on nodes are indices into these
+  segments?: TranscriptSegment[];
+}
+
+// A transcript sentence as reported by a model or transcription API
+export interface TimedText {
+  text: string;
+  start?: number;
+  end?: number;
+  speaker?: string;
+}
+
+export interface ValidateOptions extends NormalizeOptions {
+  // Sentences the model was asked to cite; otherwise taken from the response
+  transcriptSegments?: TimedText[];
+}
+
+export const DEFAULT_MAX_DEPTH = 6;
+
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Best-effort completion of JSON that was cut off mid-stream: closes an open
+// string, drops a dangling key or trailing comma and closes open brackets.
+export const repairJson = (text: string): string => {
+  const source = stripCodeFence(text);
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let out = '';
+
+  for (const ch of source) {
+    out += ch;
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  if (inString) {
+    if (escaped) out = out.slice(0, -1);
+    out += '"';
+  }
+
+  let trimmed = out.trimEnd();
+  // A key without a value ({"label" or , "label":) cannot be completed, drop it
+  if (stack[stack.length - 1] === '}') {
+    trimmed = trimmed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1');
+  }
+  trimmed = trimmed.replace(/,\s*$/, '');
+
+  return trimmed + stack.reverse().join('');
+};
+
+export const parseModelJson = (text: string | undefined | null): unknown => {
+  if (!text || !text.trim()) throw new ResultValidationError('empty_response');
+  const cleaned = stripCodeFence(text);
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    try {
+      return JSON.parse(repairJson(cleaned));
+    } catch (error) {
+      throw new ResultValidationError('malformed_json', (error as Error).message);
+    }
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeLabel = (value: unknown) =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+// Returns null for nodes that have nothing to show.
+const normalizeNode = (value: unknown, depth: number, maxDepth: number, segments?: TranscriptSegment[]): MindMapNode | null => {
+  if (!isObject(value)) return null;
+  const label = normalizeLabel(value.label);
+  if (!label) return null;
+
+  const node: MindMapNode = { label, ...parseNodeMeta(value) };
+  if (typeof value.id === 'string' && value.id) node.id = value.id;
+  const sources = segments ? spansFromIndices(value.sources, segments) : undefined;
+  if (sources) node.sources = sources;
+
+  if (depth < maxDepth && Array.isArray(value.children)) {
+    const children: MindMapNode[] = [];
+    const byLabel = new Map<string, MindMapNode>();
+    for (const raw of value.children) {
+      const child = normalizeNode(raw, depth + 1, maxDepth, segments);
+      if (!child) continue;
+      const existing = byLabel.get(labelKey(child.label));
+      if (existing) {
+        // Duplicate sibling: keep the first one and fold the other's children into it
+        if (child.children) {
+          existing.children = mergeMindMaps(existing, child).children;
+        }
+        const merged = unionSpans(existing.sources, child.sources);
+        if (merged) existing.sources = merged;
+        continue;
+      }
+      byLabel.set(labelKey(child.label), child);
+      children.push(child);
+    }
+    if (children.length > 0) node.children = children;
+  }
+  return node;
+};
+
+export const normalizeMindMap = (value: unknown, options: NormalizeOptions = {}): MindMapNode => {
+  if (!isObject(value)) throw new ResultValidationError('missing_mind_map');
+  const node = normalizeNode(value, 0, options.maxDepth ?? DEFAULT_MAX_DEPTH, options.segments);
+  if (!node) throw new ResultValidationError('invalid_mind_map');
+  return node;
+};
+
+const parseTimedTexts = (value: unknown): TimedText[] => {
+  if (!Array.isArray(value)) return [];
+  const seconds = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : undefined);
+  return value
+    .filter(isObject)
+    .map(s => ({
+      text: typeof s.text === 'string' ? s.text.trim() : '',
+      start: seconds(s.start),
+      end: seconds(s.end),
+      speaker: typeof s.speaker === 'string' && s.speaker.trim() ? s.speaker.trim() : undefined
+    }))
+    .filter(s => s.text);
+};
+
+const parseSpeakers = (value: unknown): Speaker[] =>
+  Array.isArray(value)
+    ? value
+      .filter(isObject)
+      .map(s => ({ id: String(s.id ?? '').trim(), name: typeof s.name === 'string' ? s.name.trim() : '' }))
+      .filter(s => s.id)
+    : [];
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(normalizeLabel).filter(Boolean) : [];
+
+// Missing or malformed parts become empty lists rather than failing the result
+const parseMinutes = (value: unknown): MeetingMinutes | undefined => {
+  if (!isObject(value)) return undefined;
+  const actionItems: ActionItem[] = [];
+  for (const raw of Array.isArray(value.actionItems) ? value.actionItems : []) {
+    const task = isObject(raw) ? normalizeLabel(raw.task) : normalizeLabel(raw);
+    if (!task) continue;
+    const item: ActionItem = { task };
+    const owner = isObject(raw) ? normalizeLabel(raw.owner) : '';
+    const due = isObject(raw) ? normalizeLabel(raw.due) : '';
+    if (owner) item.owner = owner;
+    if (due) item.due = due;
+    actionItems.push(item);
+  }
+  return { attendees: stringList(value.attendees), decisions: stringList(value.decisions), actionItems };
+};
+
+// Segment indices are only meaningful if the model produced (or was given)
+// the segments; paragraph entries are aligned with splitParagraphs(formalText).
+const resolveParagraphSources = (value: unknown, formalText: string, segments: TranscriptSegment[]): SourceSpan[][] | undefined => {
+  if (!Array.isArray(value) || segments.length === 0) return undefined;
+  const spans = splitParagraphs(formalText).map((_, i) => spansFromIndices(value[i], segments) || []);
+  return spans.some(s => s.length > 0) ? spans : undefined;
+};
+
+export const validateTransformationResult = (value: unknown, options: ValidateOptions = {}): TransformationResult => {
+  if (!isObject(value)) throw new ResultValidationError('not_an_object');
+
+  const formalText = typeof value.formalText === 'string' ? value.formalText.trim() : '';
+  if (!formalText) throw new ResultValidationError('missing_formal_text');
+
+  const timed = options.transcriptSegments || parseTimedTexts(value.segments);
+  let originalTranscription = typeof value.originalTranscription === 'string' ? value.originalTranscription.trim() : '';
+  if (!originalTranscription) originalTranscription = timed.map(s => s.text).join('');
+  const segments = locateSegments(originalTranscription, timed.length > 0 ? timed : splitSentences(originalTranscription));
+
+  const result: TransformationResult = {
+    originalTranscription,
+    formalText,
+    mindMap: normalizeMindMap(value.mindMap, { ...options, segments })
+  };
+  if (segments.length > 0) result.segments = segments;
+  const paragraphSources = resolveParagraphSources(value.paragraphSources, formalText, segments);
+  if (paragraphSources) result.paragraphSources = paragraphSources;
+  const speakers = resolveSpeakers(segments, parseSpeakers(value.speakers));
+  if (speakers.length > 0) result.speakers = speakers;
+  const minutes = parseMinutes(value.minutes);
+  if (minutes) result.minutes = nameMinutesPeople(minutes, speakers);
+  return result;
+};
+
+export const parseTransformationResult = (text: string | undefined | null, options: ValidateOptions = {}): TransformationResult =>
+  validateTransformationResult(parseModelJson(text), options);
+
+// Colours, notes and tags are the user's; if the model drops them they are
+// carried over to the revised nodes with the same label
+const carryUserMeta = (node: MindMapNode, old?: MindMapNode): MindMapNode => {
+  const next: MindMapNode = {
+    ...(old?.color ? { color: old.color } : {}),
+    ...(old?.note ? { note: old.note } : {}),
+    ...(old?.tags ? { tags: old.tags } : {}),
+    ...node
+  };
+  if (node.children) {
+    const oldChildren = old?.children || [];
+    next.children = node.children.map(child =>
+      carryUserMeta(child, oldChildren.find(o => labelKey(o.label) === labelKey(child.label)))
+    );
+  }
+  return next;
+};
+
+// A revised result keeps the transcript, segments, speakers and minutes of the
+// one it revises; only the text, map and their sources come from the model.
+export const validateRefinedResult = (
+  value: unknown,
+  base: TransformationResult,
+  options: NormalizeOptions = {}
+): TransformationResult => {
+  if (!isObject(value)) throw new ResultValidationError('not_an_object');
+  const refined = validateTransformationResult(
+    { ...value, originalTranscription: base.originalTranscription, speakers: base.speakers, minutes: undefined },
+    { maxDepth: options.maxDepth, transcriptSegments: base.segments || [] }
+  );
+  if (!base.segments) delete refined.segments;
+  if (base.minutes) refined.minutes = base.minutes;
+  refined.mindMap = carryUserMeta(refined.mindMap, base.mindMap);
+  return refined;
+};
+
+// The deepest last node of a tree that is still streaming may be cut off
+// mid-label, so it is left out until something follows it.
+const withoutOpenLeaf = (node: Record<string, unknown>): Record<string, unknown> => {
+  const children = Array.isArray(node.children) ? node.children.filter(isObject) : [];
+  if (children.length === 0) return node;
+  const last = children[children.length - 1];
+  const lastHasChildren = Array.isArray(last.children) && last.children.length > 0;
+  return {
+    ...node,
+    children: lastHasChildren ? [...children.slice(0, -1), withoutOpenLeaf(last)] : children.slice(0, -1)
+  };
+};
+
+// Reads a response that is still arriving. Returns null while the text cannot
+// be completed into JSON (e.g. mid-number) so callers keep the last partial.
+export const parsePartialResult = (text: string): PartialResult | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(repairJson(text));
+  } catch {
+    return null;
+  }
+  if (!isObject(value)) return null;
+
+  const partial: PartialResult = {};
+  if (typeof value.originalTranscription === 'string') partial.originalTranscription = value.originalTranscription;
+  if (typeof value.formalText === 'string') partial.formalText = value.formalText;
+  if (isObject(value.mindMap)) {
+    const mindMap = normalizeNode(withoutOpenLeaf(value.mindMap), 0, Infinity);
+    if (mindMap) partial.mindMap = mindMap;
+  }
+  return partial;
+};
@@ -0,0 +1,66 @@
+import { ConnectionSettings, DocumentTemplate, OutputLanguage, OutputPreferences, ProviderId } from "../types";
+import { BUILT_IN_TEMPLATES, DEFAULT_PREFERENCES } from "./prompt";
+import { DEFAULT_PROVIDER } from "./transformerRegistry";
+import { MindMapLayoutMode } from "../utils/mindMapLayout";
+
+const STORAGE_KEY = 'speech2formal.settings';
+
+export interface AppSettings {
+  provider: ProviderId;
+  // Model, endpoint and proxy choice per provider
+  connections: Partial<Record<ProviderId, ConnectionSettings>>;
+  // Keep API keys in localStorage rather than only for this tab
+  rememberApiKeys: boolean;
+  // Recording stops automatically after this many seconds
+  maxRecordingSeconds: number;
+  outputLanguage: OutputLanguage;
+  // A built-in template id or the id of one of customTemplates
+  templateId: string;
+  customTemplates: DocumentTemplate[];
+  mindMapMaxDepth: number;
+  mindMapMaxBranches: number;
+  mindMapLayout: MindMapLayoutMode;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: DEFAULT_PROVIDER,
+  connections: {},
+  rememberApiKeys: false,
+  maxRecordingSeconds: 30 * 60,
+  outputLanguage: 'zh-CN',
+  templateId: BUILT_IN_TEMPLATES[0].id,
+  customTemplates: [],
+  mindMapMaxDepth: DEFAULT_PREFERENCES.maxDepth,
+  mindMapMaxBranches: DEFAULT_PREFERENCES.maxBranches,
+  mindMapLayout: 'right'
+};
+
+export const MAX_RECORDING_OPTIONS = [5 * 60, 15 * 60, 30 * 60, 60 * 60];
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("保存设置失败", err);
+  }
+};
+
+export const allTemplates = (settings: AppSettings): DocumentTemplate[] =>
+  [...BUILT_IN_TEMPLATES, ...settings.customTemplates];
+
+// Falls back to the default template if the selected one was deleted
+export const resolvePreferences = (settings: AppSettings): OutputPreferences => ({
+  language: settings.outputLanguage,
+  template: allTemplates(settings).find(t => t.id === settings.templateId) || BUILT_IN_TEMPLATES[0],
+  maxDepth: settings.mindMapMaxDepth,
+  maxBranches: settings.mindMapMaxBranches
+});
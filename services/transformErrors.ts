@@ -0,0 +1,127 @@
+import { ResultValidationError } from "./resultValidator";
+import { abortError, isAbortError } from "../utils/abort";
+
+export type TransformErrorCode =
+  | 'missing_api_key'
+  | 'rate_limited'
+  | 'network'
+  | 'server_error'
+  | 'safety_blocked'
+  | 'invalid_response'
+  | 'audio_too_large'
+  | 'unsupported'
+  | 'not_found'
+  | 'proxy_unavailable'
+  | 'unknown';
+
+const MESSAGES: Record<TransformErrorCode, string> = {
+  missing_api_key: "API 密钥缺失或无效，请在设置中检查。",
+  rate_limited: "请求过于频繁或已超出配额，请稍后再试。",
+  network: "网络连接失败，请检查网络后重试。",
+  server_error: "服务暂时不可用，请稍后再试。",
+  safety_blocked: "内容被模型的安全策略拦截，无法生成结果。",
+  invalid_response: "模型返回的结果无法使用。",
+  audio_too_large: "音频文件过大，超出了服务的限制。",
+  unsupported: "当前的处理方式不支持这项操作。",
+  not_found: "找不到所选的模型或接口，请检查模型名称和接口地址。",
+  proxy_unavailable: "无法通过本地代理连接。请用 npm run dev 或 npm run preview 启动应用，并在 .env.local 中配置密钥。",
+  unknown: "处理音频失败。请重试。"
+};
+
+// Worth trying again without changing anything
+const TRANSIENT: TransformErrorCode[] = ['rate_limited', 'network', 'server_error', 'invalid_response'];
+
+export class TransformError extends Error {
+  readonly code: TransformErrorCode;
+  readonly retryable: boolean;
+  // Seconds the server asked us to wait, from a Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(code: TransformErrorCode, detail?: string, retryAfter?: number) {
+    super(detail ? `${MESSAGES[code]}（${detail}）` : MESSAGES[code]);
+    this.name = 'TransformError';
+    this.code = code;
+    this.retryable = TRANSIENT.includes(code);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const errorForStatus = (status: number, retryAfter?: string | null): TransformError => {
+  if (status === 401 || status === 403) return new TransformError('missing_api_key', `HTTP ${status}`);
+  if (status === 413) return new TransformError('audio_too_large');
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return new TransformError('rate_limited', undefined, Number.isFinite(seconds) && seconds > 0 ? seconds : undefined);
+  }
+  if (status >= 500) return new TransformError('server_error', `HTTP ${status}`);
+  return new TransformError('unknown', `HTTP ${status}`);
+};
+
+// Maps whatever a provider threw onto the taxonomy. Abort errors pass through
+// untouched so callers can tell cancelling apart from failing.
+export const classifyError = (error: unknown): Error => {
+  if (error instanceof TransformError || isAbortError(error)) return error as Error;
+  if (error instanceof ResultValidationError) return new TransformError('invalid_response', error.message);
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorForStatus(status);
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new TransformError('network');
+  }
+  return new TransformError('unknown');
+};
+
+// Reading of a failed key check: there a rejected request means the key is
+// wrong and a missing route the model or endpoint, not a transient failure
+export const verificationError = (error: unknown, viaProxy = false): Error => {
+  if (error instanceof TransformError || isAbortError(error)) return error as Error;
+  const status = (error as { status?: unknown })?.status;
+  if (status === 400 || status === 401 || status === 403) return new TransformError('missing_api_key', `HTTP ${status}`);
+  if (status === 404) return new TransformError('not_found');
+  // The proxy route answered with something other than the provider's JSON
+  if (viaProxy && typeof status !== 'number') return new TransformError('proxy_unavailable');
+  return classifyError(error);
+};
+
+export const RETRY = {
+  attempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `run` again after transient failures, waiting exponentially longer
+// (with jitter) each time, or as long as the server asked.
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (error: TransformError, attempt: number) => void } = {},
+  limits = RETRY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (!(error instanceof TransformError) || !error.retryable || attempt >= limits.attempts) throw error;
+      // Nothing to gain from hammering the server while offline
+      if (error.code === 'network' && typeof navigator !== 'undefined' && !navigator.onLine) throw error;
+      const backoff = limits.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      const delay = error.retryAfter ? error.retryAfter * 1000 : backoff;
+      options.onRetry?.(error, attempt);
+      await sleep(Math.min(delay, limits.maxDelayMs), options.signal);
+    }
+  }
+};
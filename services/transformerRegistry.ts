@@ -0,0 +1,75 @@
+import { ConnectionSettings, ProviderConfig, ProviderId, SpeechTransformer } from "../types";
+import { createGeminiTransformer } from "./geminiService";
+import { DEFAULT_BASE_URL, createOpenAITransformer } from "./openaiService";
+import { createMockTransformer } from "./mockService";
+import { createLocalTransformer } from "./localService";
+import { PROXY_ROUTES } from "./proxyRoutes";
+
+export const PROVIDERS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI 兼容接口' },
+  { id: 'mock', label: '本地模拟' },
+  { id: 'local', label: '离线整理（仅文字）' }
+];
+
+// Providers that need a key and can go through the local proxy
+export const REMOTE_PROVIDERS: ProviderId[] = ['gemini', 'openai'];
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDERS.some(p => p.id === value);
+
+// Build-time default for a first visit; the settings take over after that
+export const DEFAULT_PROVIDER: ProviderId = isProviderId(process.env.SPEECH_PROVIDER) ? process.env.SPEECH_PROVIDER : 'gemini';
+
+// ?provider=<id> in the page URL picks the provider for a visit
+export const providerFromUrl = (): ProviderId | null => {
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  return isProviderId(fromUrl) ? fromUrl : null;
+};
+
+// The key is entered at runtime and never part of the build. Through the
+// proxy the browser holds no key at all; the endpoint is the proxy's route.
+export const configFor = (provider: ProviderId, connection: ConnectionSettings = {}, apiKey?: string): ProviderConfig => {
+  const proxied = connection.proxy && REMOTE_PROVIDERS.includes(provider)
+    ? { proxy: true, baseUrl: `${window.location.origin}${PROXY_ROUTES[provider as keyof typeof PROXY_ROUTES]}` }
+    : null;
+  switch (provider) {
+    case 'openai':
+      return {
+        provider,
+        apiKey: proxied ? undefined : apiKey,
+        baseUrl: connection.baseUrl || process.env.OPENAI_BASE_URL,
+        model: connection.model || process.env.OPENAI_MODEL,
+        transcriptionModel: connection.transcriptionModel || process.env.OPENAI_TRANSCRIPTION_MODEL,
+        ...proxied
+      };
+    case 'mock':
+    case 'local':
+      return { provider };
+    case 'gemini':
+    default:
+      return { provider: 'gemini', apiKey: proxied ? undefined : apiKey, model: connection.model, ...proxied };
+  }
+};
+
+// True when requests are bound to fail for want of a key; self-hosted
+// OpenAI-compatible servers often run without one
+export const needsApiKey = (config: ProviderConfig): boolean => {
+  if (config.apiKey || config.proxy) return false;
+  if (config.provider === 'gemini') return true;
+  return config.provider === 'openai' && (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '') === DEFAULT_BASE_URL;
+};
+
+export const createTransformer = (config: ProviderConfig): SpeechTransformer => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAITransformer(config);
+    case 'mock':
+      return createMockTransformer();
+    case 'local':
+      return createLocalTransformer();
+    case 'gemini':
+    default:
+      return createGeminiTransformer(config);
+  }
+};
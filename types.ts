@@ -1,20 +1,178 @@
 
+// The part of the transcript (and recording) a piece of output is based on
+export interface SourceSpan {
+  // Character offsets into originalTranscription
+  from: number;
+  to: number;
+  // Seconds into the recording, when the provider reports timings
+  start?: number;
+  end?: number;
+}
+
+// One sentence of the transcript
+export interface TranscriptSegment extends SourceSpan {
+  text: string;
+  // Id of a Speaker in TransformationResult.speakers
+  speaker?: string;
+}
+
+export interface Speaker {
+  id: string;
+  // Shown instead of the id; editable by the user
+  name: string;
+}
+
+export interface ActionItem {
+  task: string;
+  owner?: string;
+  due?: string;
+}
+
+export interface MeetingMinutes {
+  attendees: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+}
+
+export type NodeColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'gray';
+export type NodePriority = 'high' | 'medium' | 'low';
+// Marks what kind of point a node is; drawn as a badge
+export type NodeIcon = 'idea' | 'risk' | 'action' | 'decision' | 'question' | 'star';
+export type NodeStatus = 'todo' | 'done';
+
 export interface MindMapNode {
   id?: string;
   label: string;
   children?: MindMapNode[];
+  sources?: SourceSpan[];
+  // Also colours the branch below the node
+  color?: NodeColor;
+  priority?: NodePriority;
+  icon?: NodeIcon;
+  note?: string;
+  tags?: string[];
+  // Only set on nodes that are tasks
+  status?: NodeStatus;
 }
 
 export interface TransformationResult {
   originalTranscription: string;
   formalText: string;
   mindMap: MindMapNode;
+  segments?: TranscriptSegment[];
+  // One entry per paragraph of formalText (see splitParagraphs)
+  paragraphSources?: SourceSpan[][];
+  speakers?: Speaker[];
+  // Only produced by templates with minutes enabled
+  minutes?: MeetingMinutes;
+}
+
+// One version of a result in its refinement history
+export interface Revision {
+  id: string;
+  createdAt: number;
+  // The instruction that produced it; empty for the original
+  instruction: string;
+  result: TransformationResult;
+}
+
+export interface HistoryEntry {
+  id: string;
+  title: string;
+  createdAt: number;
+  // Recording length in seconds
+  duration: number;
+  audio?: Blob;
+  mimeType?: string;
+  result: TransformationResult;
+  revisions?: Revision[];
+}
+
+// A recording made while offline, processed once the connection is back
+export interface QueuedRecording {
+  id: string;
+  createdAt: number;
+  audio: Blob;
+  mimeType: string;
+  duration: number;
+  // Set when processing failed for a reason other than connectivity
+  error?: string;
 }
 
 export enum AppStatus {
   IDLE = 'IDLE',
+  HISTORY = 'HISTORY',
+  SETTINGS = 'SETTINGS',
   RECORDING = 'RECORDING',
   PROCESSING = 'PROCESSING',
   RESULT = 'RESULT',
   ERROR = 'ERROR'
 }
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'local';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey?: string;
+  // A self-hosted OpenAI-compatible endpoint, or the local proxy's route
+  baseUrl?: string;
+  model?: string;
+  transcriptionModel?: string;
+  // Requests go through the local proxy, which adds the key on the server
+  proxy?: boolean;
+}
+
+// What the settings keep for each provider; API keys are stored apart
+export type ConnectionSettings = Pick<ProviderConfig, 'baseUrl' | 'model' | 'transcriptionModel' | 'proxy'>;
+
+// 'same' keeps the language that was spoken
+export type OutputLanguage = 'zh-CN' | 'en' | 'same' | 'bilingual';
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  // How the text should be written (register, tone)
+  instructions: string;
+  // What the formal text should contain and how it is laid out
+  structure: string;
+  builtIn?: boolean;
+  // Also ask for attendees, decisions and action items as structured data
+  minutes?: boolean;
+}
+
+export interface OutputPreferences {
+  language: OutputLanguage;
+  template: DocumentTemplate;
+  // Mind map shape: levels below the central topic, and children per node
+  maxDepth: number;
+  maxBranches: number;
+}
+
+// Whatever could be parsed so far while a response is streaming in
+export type PartialResult = Partial<Pick<TransformationResult, 'originalTranscription' | 'formalText' | 'mindMap'>>;
+
+export interface TransformOptions {
+  preferences?: OutputPreferences;
+  // Aborting rejects the transform with an AbortError
+  signal?: AbortSignal;
+  onPartial?: (partial: PartialResult) => void;
+}
+
+// A follow-up request to revise a result, typed or spoken
+export type RefinementInstruction =
+  | { text: string }
+  | { audioBase64: string; mimeType: string };
+
+export interface SpeechTransformer {
+  readonly id: ProviderId;
+  // False for transformers that work without a connection
+  readonly online?: boolean;
+  transform(audioBase64: string, mimeType: string, options?: TransformOptions): Promise<TransformationResult>;
+  // Typed or pasted notes take the place of the transcript
+  transformText(text: string, options?: TransformOptions): Promise<TransformationResult>;
+  // Revises an existing result; the transcript and its segments stay as they are
+  refine(result: TransformationResult, instruction: RefinementInstruction, options?: TransformOptions): Promise<TransformationResult>;
+  // Checks the key and model with a cheap request; rejects with a
+  // TransformError saying what is wrong. Absent for offline transformers.
+  verify?(signal?: AbortSignal): Promise<void>;
+}
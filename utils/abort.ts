@@ -0,0 +1,10 @@
+// Cancellation helpers shared by the transformers and the chunked processor
+
+export const abortError = () => new DOMException("已取消处理。", 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { AppStatus } from '../types';
+import { StatusEvent, isSettled, statusReducer } from './appStatus';
+
+const ALL = [
+  AppStatus.IDLE, AppStatus.HISTORY, AppStatus.SETTINGS, AppStatus.RECORDING,
+  AppStatus.PROCESSING, AppStatus.RESULT, AppStatus.ERROR
+];
+
+describe('statusReducer', () => {
+  it('follows the app flow', () => {
+    expect(statusReducer(AppStatus.IDLE, { type: 'RECORDING_STARTED' })).toBe(AppStatus.RECORDING);
+    expect(statusReducer(AppStatus.RECORDING, { type: 'PROCESSING_STARTED' })).toBe(AppStatus.PROCESSING);
+    expect(statusReducer(AppStatus.PROCESSING, { type: 'RESULT_READY' })).toBe(AppStatus.RESULT);
+    expect(statusReducer(AppStatus.RESULT, { type: 'RECORDING_STARTED' })).toBe(AppStatus.RECORDING);
+    expect(statusReducer(AppStatus.ERROR, { type: 'PROCESSING_STARTED' })).toBe(AppStatus.PROCESSING);
+    expect(statusReducer(AppStatus.HISTORY, { type: 'CLOSE_PANEL' })).toBe(AppStatus.IDLE);
+  });
+
+  it.each<[AppStatus, StatusEvent]>([
+    [AppStatus.IDLE, { type: 'CLOSE_PANEL' }],
+    [AppStatus.HISTORY, { type: 'RECORDING_STARTED' }],
+    [AppStatus.SETTINGS, { type: 'OPEN_HISTORY' }],
+    [AppStatus.RECORDING, { type: 'RESULT_READY' }],
+    [AppStatus.RECORDING, { type: 'RESET' }],
+    [AppStatus.RECORDING, { type: 'CANCELLED', hasResult: true }],
+    [AppStatus.PROCESSING, { type: 'RECORDING_STARTED' }],
+    [AppStatus.PROCESSING, { type: 'OPEN_SETTINGS' }],
+    [AppStatus.PROCESSING, { type: 'RESET' }],
+    [AppStatus.RESULT, { type: 'PROCESSING_STARTED' }],
+    [AppStatus.RESULT, { type: 'CANCELLED', hasResult: false }],
+    [AppStatus.ERROR, { type: 'RECORDING_STARTED' }]
+  ])('stays on %s for %o', (status, event) => {
+    expect(statusReducer(status, event)).toBe(status);
+  });
+
+  it('lets only settled screens take a reset, and a result besides processing', () => {
+    for (const status of ALL) {
+      const settled = isSettled(status);
+      expect(statusReducer(status, { type: 'RESULT_READY' })).toBe(
+        settled || status === AppStatus.PROCESSING ? AppStatus.RESULT : status
+      );
+      expect(statusReducer(status, { type: 'RESET' })).toBe(settled ? AppStatus.IDLE : status);
+    }
+    expect(ALL.filter(isSettled)).toEqual([AppStatus.IDLE, AppStatus.HISTORY, AppStatus.SETTINGS, AppStatus.RESULT, AppStatus.ERROR]);
+  });
+
+  it('cancels back to the result or the start only while processing', () => {
+    expect(statusReducer(AppStatus.PROCESSING, { type: 'CANCELLED', hasResult: true })).toBe(AppStatus.RESULT);
+    expect(statusReducer(AppStatus.PROCESSING, { type: 'CANCELLED', hasResult: false })).toBe(AppStatus.IDLE);
+  });
+});
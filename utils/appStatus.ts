@@ -0,0 +1,58 @@
+import { AppStatus } from '../types';
+
+// What happened, as opposed to which screen to show; the reducer decides the
+// screen, so any part of the app can report events without knowing the flow.
+export type StatusEvent =
+  | { type: 'RECORDING_STARTED' }
+  | { type: 'PROCESSING_STARTED' }
+  | { type: 'RESULT_READY' }
+  | { type: 'FAILED' }
+  // Processing was cancelled or put off until the connection returns; goes
+  // back to the result a recording was meant to continue, if any
+  | { type: 'CANCELLED'; hasResult: boolean }
+  | { type: 'OPEN_HISTORY' }
+  | { type: 'OPEN_SETTINGS' }
+  | { type: 'CLOSE_PANEL' }
+  | { type: 'RESET' };
+
+type EventType = StatusEvent['type'];
+
+// Screens that show no work in progress, where a share link or a new start may take over
+const SETTLED = [AppStatus.IDLE, AppStatus.HISTORY, AppStatus.SETTINGS, AppStatus.RESULT, AppStatus.ERROR];
+
+export const isSettled = (status: AppStatus) => SETTLED.includes(status);
+
+const TRANSITIONS: Record<AppStatus, Partial<Record<EventType, AppStatus>>> = {
+  [AppStatus.IDLE]: {
+    RECORDING_STARTED: AppStatus.RECORDING,
+    PROCESSING_STARTED: AppStatus.PROCESSING,
+    OPEN_HISTORY: AppStatus.HISTORY,
+    OPEN_SETTINGS: AppStatus.SETTINGS
+  },
+  [AppStatus.HISTORY]: { CLOSE_PANEL: AppStatus.IDLE },
+  [AppStatus.SETTINGS]: { CLOSE_PANEL: AppStatus.IDLE },
+  [AppStatus.RECORDING]: {
+    PROCESSING_STARTED: AppStatus.PROCESSING,
+    FAILED: AppStatus.ERROR
+  },
+  [AppStatus.PROCESSING]: {
+    RESULT_READY: AppStatus.RESULT,
+    FAILED: AppStatus.ERROR
+  },
+  // Continuing a recording starts from the result
+  [AppStatus.RESULT]: { RECORDING_STARTED: AppStatus.RECORDING },
+  [AppStatus.ERROR]: { PROCESSING_STARTED: AppStatus.PROCESSING }
+};
+
+// Events that do not fit the current status are ignored
+export const statusReducer = (status: AppStatus, event: StatusEvent): AppStatus => {
+  if (event.type === 'CANCELLED') {
+    return status === AppStatus.PROCESSING ? (event.hasResult ? AppStatus.RESULT : AppStatus.IDLE) : status;
+  }
+  if (isSettled(status)) {
+    if (event.type === 'RESULT_READY') return AppStatus.RESULT;
+    if (event.type === 'FAILED') return AppStatus.ERROR;
+    if (event.type === 'RESET') return AppStatus.IDLE;
+  }
+  return TRANSITIONS[status][event.type] ?? status;
+};
@@ -0,0 +1,83 @@
+export type AudioFileErrorCode = 'empty' | 'unsupported_format' | 'too_large' | 'too_long';
+
+export class AudioFileError extends Error {
+  readonly code: AudioFileErrorCode;
+
+  constructor(code: AudioFileErrorCode, message: string) {
+    super(message);
+    this.name = 'AudioFileError';
+    this.code = code;
+  }
+}
+
+export const AUDIO_UPLOAD_LIMITS = {
+  // Long files are decoded in memory before being split into segments
+  maxBytes: 100 * 1024 * 1024,
+  maxDurationSeconds: 60 * 60
+};
+
+export const AUDIO_ACCEPT = '.webm,.ogg,.oga,.opus,.mp3,.wav,.m4a,.mp4,.aac,audio/*';
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+// Identifies the container from its magic bytes; file extensions and the
+// browser-reported type are both unreliable for uploads.
+export const sniffAudioMime = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'audio/webm';
+  if (startsWith(bytes, ascii('OggS'))) return 'audio/ogg';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WAVE'), 8)) return 'audio/wav';
+  if (startsWith(bytes, ascii('ftyp'), 4)) return 'audio/mp4';
+  if (startsWith(bytes, ascii('ID3'))) return 'audio/mpeg';
+  // Bare MPEG audio frame sync (11 set bits)
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'audio/mpeg';
+  return null;
+};
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(0)} MB`;
+
+// Resolves to null when the browser cannot tell, e.g. MediaRecorder WebM files
+// that carry no duration header.
+export const getAudioDuration = (blob: Blob): Promise<number | null> =>
+  new Promise(resolve => {
+    const audio = document.createElement('audio');
+    const url = URL.createObjectURL(blob);
+    const done = (value: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(value);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+
+export interface AudioUpload {
+  blob: Blob;
+  mimeType: string;
+  // Seconds, rounded; 0 when unknown, in which case transformAudio decodes
+  // the file to measure it
+  duration: number;
+}
+
+export const readAudioFile = async (file: File, limits = AUDIO_UPLOAD_LIMITS): Promise<AudioUpload> => {
+  if (file.size === 0) throw new AudioFileError('empty', "文件为空。");
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const mimeType = sniffAudioMime(header);
+  if (!mimeType) {
+    throw new AudioFileError('unsupported_format', `不支持的音频格式“${file.name}”。请上传 webm、ogg、mp3、wav 或 m4a 文件。`);
+  }
+  if (file.size > limits.maxBytes) {
+    throw new AudioFileError('too_large', `文件过大（${formatMb(file.size)}），上限为 ${formatMb(limits.maxBytes)}。`);
+  }
+
+  const duration = await getAudioDuration(file);
+  if (duration !== null && duration > limits.maxDurationSeconds) {
+    throw new AudioFileError('too_long', `音频时长超过上限（${Math.round(limits.maxDurationSeconds / 60)} 分钟）。`);
+  }
+
+  return { blob: new Blob([file], { type: mimeType }), mimeType, duration: Math.round(duration || 0) };
+};
@@ -11,8 +11,7 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-export const downloadTextFile = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/plain' });
+export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -22,3 +21,16 @@ export const downloadTextFile = (content: string, filename: string) => {
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
+
+export const downloadTextFile = (content: string, filename: string, mimeType = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { AppStatus } from '../types';
+import { KeyInput, commandForKey, keyTarget } from './commands';
+
+const key = (code: string, modifiers: Partial<KeyInput> = {}): KeyInput =>
+  ({ code, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+// Focuses a fresh element made from `html` and returns it as a key target
+const focused = (html: string, selector: string) => {
+  document.body.innerHTML = html;
+  return keyTarget(document.querySelector(selector));
+};
+
+const TARGETS = {
+  body: () => keyTarget(document.body),
+  input: () => focused('<input type="text">', 'input'),
+  textarea: () => focused('<textarea></textarea>', 'textarea'),
+  button: () => focused('<button>确定</button>', 'button'),
+  tree: () => focused('<svg role="tree" tabindex="0"><g><text>根</text></g></svg>', 'text')
+};
+
+describe('keyTarget', () => {
+  it('tells fields, controls and the rest of the page apart', () => {
+    expect(TARGETS.body()).toBe('none');
+    expect(TARGETS.input()).toBe('text');
+    expect(TARGETS.textarea()).toBe('text');
+    expect(TARGETS.button()).toBe('control');
+    expect(TARGETS.tree()).toBe('control');
+    expect(keyTarget(null)).toBe('none');
+  });
+});
+
+describe('commandForKey', () => {
+  const fired = (status: AppStatus, input: KeyInput) =>
+    Object.fromEntries(Object.entries(TARGETS).map(([name, target]) => [name, commandForKey(status, input, target())]));
+
+  it('leaves plain keys to whatever has focus', () => {
+    expect(fired(AppStatus.IDLE, key('Space'))).toEqual({
+      body: 'record.start', input: null, textarea: null, button: null, tree: null
+    });
+  });
+
+  it('runs Alt shortcuts everywhere but in fields', () => {
+    expect(fired(AppStatus.RESULT, key('Digit2', { altKey: true }))).toEqual({
+      body: 'view.mindmap', input: null, textarea: null, button: 'view.mindmap', tree: 'view.mindmap'
+    });
+  });
+
+  it('runs Ctrl and Cmd shortcuts everywhere', () => {
+    const everywhere = { body: 'palette.open', input: 'palette.open', textarea: 'palette.open', button: 'palette.open', tree: 'palette.open' };
+    expect(fired(AppStatus.RESULT, key('KeyK', { ctrlKey: true }))).toEqual(everywhere);
+    expect(fired(AppStatus.PROCESSING, key('KeyK', { metaKey: true }))).toEqual(everywhere);
+  });
+
+  it('only matches shortcuts of the current status with the exact modifiers', () => {
+    expect(commandForKey(AppStatus.RESULT, key('Space'), 'none')).toBeNull();
+    expect(commandForKey(AppStatus.RECORDING, key('Space'), 'none')).toBe('record.stop');
+    expect(commandForKey(AppStatus.RESULT, key('Digit2'), 'none')).toBeNull();
+    expect(commandForKey(AppStatus.RESULT, key('Digit2', { altKey: true, shiftKey: true }), 'none')).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { AppStatus } from '../types';
+
+export type CommandId =
+  | 'palette.open'
+  | 'record.start'
+  | 'record.stop'
+  | 'record.pause'
+  | 'processing.cancel'
+  | 'view.text'
+  | 'view.mindmap'
+  | 'result.copy'
+  | 'result.download'
+  | 'result.share'
+  | 'result.refine'
+  | 'result.continue'
+  | 'error.retry'
+  | 'app.reset'
+  | 'app.history'
+  | 'app.settings';
+
+// Matched on KeyboardEvent.code, which stays the same whatever Alt turns the
+// key into on a Mac. `mod` is Ctrl, or Cmd on a Mac.
+export interface Shortcut {
+  code: string;
+  mod?: boolean;
+  alt?: boolean;
+  shift?: boolean;
+}
+
+export interface CommandSpec {
+  id: CommandId;
+  label: string;
+  icon: string;
+  statuses: AppStatus[];
+  shortcut?: Shortcut;
+}
+
+// Every action of the app flow, in the order the palette lists them. Whether
+// a command can run also depends on the handlers the app provides at the time.
+export const COMMANDS: CommandSpec[] = [
+  { id: 'record.start', label: '开始录音', icon: 'fa-microphone', statuses: [AppStatus.IDLE], shortcut: { code: 'Space' } },
+  { id: 'record.stop', label: '停止录音并处理', icon: 'fa-stop', statuses: [AppStatus.RECORDING], shortcut: { code: 'Space' } },
+  { id: 'record.pause', label: '暂停 / 继续录音', icon: 'fa-pause', statuses: [AppStatus.RECORDING], shortcut: { code: 'KeyP' } },
+  { id: 'processing.cancel', label: '取消处理', icon: 'fa-xmark', statuses: [AppStatus.PROCESSING], shortcut: { code: 'Escape' } },
+  { id: 'view.text', label: '查看正式文本', icon: 'fa-align-left', statuses: [AppStatus.RESULT], shortcut: { code: 'Digit1', alt: true } },
+  { id: 'view.mindmap', label: '查看思维导图', icon: 'fa-diagram-project', statuses: [AppStatus.RESULT], shortcut: { code: 'Digit2', alt: true } },
+  { id: 'result.copy', label: '复制文本', icon: 'fa-copy', statuses: [AppStatus.RESULT], shortcut: { code: 'KeyC', alt: true } },
+  { id: 'result.download', label: '下载文件', icon: 'fa-download', statuses: [AppStatus.RESULT], shortcut: { code: 'KeyD', alt: true } },
+  { id: 'result.share', label: '分享结果', icon: 'fa-share-nodes', statuses: [AppStatus.RESULT], shortcut: { code: 'KeyS', alt: true } },
+  { id: 'result.refine', label: '修订', icon: 'fa-wand-magic-sparkles', statuses: [AppStatus.RESULT], shortcut: { code: 'KeyR', alt: true } },
+  { id: 'result.continue', label: '继续录音', icon: 'fa-microphone', statuses: [AppStatus.RESULT] },
+  { id: 'error.retry', label: '使用同一段音频重试', icon: 'fa-rotate-right', statuses: [AppStatus.ERROR] },
+  { id: 'app.reset', label: '重新开始', icon: 'fa-rotate-left', statuses: [AppStatus.RESULT, AppStatus.ERROR], shortcut: { code: 'KeyN', alt: true } },
+  { id: 'app.history', label: '历史记录', icon: 'fa-clock-rotate-left', statuses: [AppStatus.IDLE], shortcut: { code: 'KeyH', alt: true } },
+  { id: 'app.settings', label: '设置', icon: 'fa-gear', statuses: [AppStatus.IDLE], shortcut: { code: 'Comma', alt: true } },
+  {
+    id: 'palette.open',
+    label: '命令面板',
+    icon: 'fa-terminal',
+    statuses: [AppStatus.IDLE, AppStatus.HISTORY, AppStatus.SETTINGS, AppStatus.RECORDING, AppStatus.PROCESSING, AppStatus.RESULT, AppStatus.ERROR],
+    shortcut: { code: 'KeyK', mod: true }
+  }
+];
+
+export const commandsFor = (status: AppStatus): CommandSpec[] =>
+  COMMANDS.filter(c => c.statuses.includes(status));
+
+export const shortcutFor = (id: CommandId): Shortcut =>
+  COMMANDS.find(c => c.id === id)!.shortcut!;
+
+export interface KeyInput {
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+const matches = (shortcut: Shortcut, key: KeyInput) =>
+  shortcut.code === key.code
+  && !!shortcut.mod === (key.ctrlKey || key.metaKey)
+  && !!shortcut.alt === key.altKey
+  && !!shortcut.shift === key.shiftKey;
+
+// What has keyboard focus: nothing in particular, a control with keys of its
+// own (a button, the mind map) or a field that takes typing
+export type KeyTarget = 'none' | 'control' | 'text';
+
+// Element rather than HTMLElement, so the mind map's SVG tree counts too
+export const keyTarget = (target: EventTarget | null): KeyTarget => {
+  if (!(target instanceof Element)) return 'none';
+  if ((target instanceof HTMLElement && target.isContentEditable) || target.closest('input, textarea, select')) return 'text';
+  if (target.closest('button, a[href], audio, video, [role="tree"]')) return 'control';
+  return 'none';
+};
+
+// Plain keys belong to a focused control; Alt shortcuts would type characters
+// into a field on a Mac, so only Ctrl/Cmd shortcuts work everywhere
+export const commandForKey = (status: AppStatus, key: KeyInput, target: KeyTarget): CommandId | null => {
+  const command = commandsFor(status).find(c => c.shortcut && matches(c.shortcut, key));
+  if (!command) return null;
+  const { mod, alt } = command.shortcut!;
+  if (mod) return command.id;
+  if (alt) return target === 'text' ? null : command.id;
+  return target === 'none' ? command.id : null;
+};
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_NAMES: Record<string, string> = { Space: '空格', Escape: 'Esc', Comma: ',' };
+
+export const shortcutLabel = (shortcut: Shortcut): string => {
+  const key = KEY_NAMES[shortcut.code] || shortcut.code.replace(/^Key|^Digit/, '');
+  const parts = [
+    ...(shortcut.mod ? [IS_MAC ? '⌘' : 'Ctrl'] : []),
+    ...(shortcut.alt ? [IS_MAC ? '⌥' : 'Alt'] : []),
+    ...(shortcut.shift ? [IS_MAC ? '⇧' : 'Shift'] : []),
+    key
+  ];
+  return parts.join(IS_MAC ? '' : '+');
+};
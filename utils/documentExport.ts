@@ -0,0 +1,357 @@
+import { TransformationResult } from '../types';
+import { Block, escapeHtml, markdownToHtml, parseDocument, parseInline } from './markdown';
+import { MindMapLayoutMode } from './mindMapLayout';
+import { escapeXml, parentIds, safeFileName, toPng, toSvg } from './mindMapExport';
+import { assignIds } from './mindMapTree';
+import { blobToBase64 } from './audioUtils';
+import { createZip } from './zip';
+
+export type DocumentExportFormat = 'markdown' | 'html' | 'snapshot' | 'docx' | 'pdf';
+
+const MAP_TITLE = '思维导图';
+
+const STYLES = `
+  @page { size: A4; margin: 20mm; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'PingFang SC', 'Microsoft YaHei', sans-serif; color: #1e293b; line-height: 1.8; max-width: 780px; margin: 40px auto; padding: 0 24px; }
+  h1, h2, h3 { line-height: 1.4; margin: 1.6em 0 0.6em; }
+  p, ul, ol { margin: 0 0 1em; }
+  figure { margin: 2em 0 0; text-align: center; break-inside: avoid; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption { color: #64748b; font-size: 0.9em; margin-top: 0.5em; }
+  @media print { body { margin: 0; padding: 0; max-width: none; } }
+`;
+
+// Standalone page with the text and the map drawn as inline SVG
+export const toHtmlDocument = (result: TransformationResult, layout?: MindMapLayoutMode): string => {
+  const { svg } = toSvg(result.mindMap, { labels: 'text', layout });
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    `<title>${escapeHtml(result.mindMap.label)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    markdownToHtml(result.formalText),
+    `<figure>${svg.replace(/^<\?xml[^>]*>/, '')}<figcaption>${MAP_TITLE}</figcaption></figure>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
+
+const SNAPSHOT_STYLES = `
+  #map { position: relative; margin: 2em 0; border: 1px solid #e2e8f0; border-radius: 12px; overflow: hidden; background: #f8fafc; }
+  #map svg { display: block; width: 100%; height: 70vh; cursor: grab; touch-action: none; }
+  #map .controls { position: absolute; top: 8px; right: 8px; display: flex; gap: 4px; }
+  #map button { font: inherit; font-size: 12px; padding: 4px 10px; border: 1px solid #e2e8f0; border-radius: 8px; background: #ffffff; color: #475569; cursor: pointer; }
+  details { margin-top: 2em; color: #475569; }
+  summary { cursor: pointer; font-weight: 600; }
+  details p { white-space: pre-wrap; }
+`;
+
+// Collapses subtrees, pans and zooms the map without the app. Kept to plain
+// browser APIs so the page works from a file: URL.
+const SNAPSHOT_SCRIPT = `
+(function () {
+  var parents = JSON.parse(document.getElementById('map-parents').textContent);
+  var svg = document.querySelector('#map svg');
+  var collapsed = {};
+  var hidden = function (id) {
+    for (var p = parents[id]; p; p = parents[p]) if (collapsed[p]) return true;
+    return false;
+  };
+  var render = function () {
+    svg.querySelectorAll('[data-node]').forEach(function (el) {
+      el.style.display = hidden(el.getAttribute('data-node')) ? 'none' : '';
+    });
+    svg.querySelectorAll('[data-toggle]').forEach(function (el) {
+      el.querySelector('text').textContent = collapsed[el.getAttribute('data-toggle')] ? '+' : '\u2212';
+    });
+  };
+  svg.addEventListener('click', function (e) {
+    var toggle = e.target.closest('[data-toggle]');
+    if (!toggle) return;
+    var id = toggle.getAttribute('data-toggle');
+    collapsed[id] = !collapsed[id];
+    render();
+  });
+  document.getElementById('map-expand').onclick = function () { collapsed = {}; render(); };
+  document.getElementById('map-collapse').onclick = function () {
+    // The first child recorded is one of the root's
+    var root = parents[Object.keys(parents)[0]];
+    collapsed = {};
+    Object.keys(parents).forEach(function (id) { if (parents[id] === root) collapsed[id] = true; });
+    render();
+  };
+
+  var box = svg.viewBox.baseVal;
+  var initial = [box.x, box.y, box.width, box.height];
+  // Pointer position in viewBox coordinates
+  var toMap = function (e) {
+    var p = svg.createSVGPoint();
+    p.x = e.clientX;
+    p.y = e.clientY;
+    return p.matrixTransform(svg.getScreenCTM().inverse());
+  };
+  svg.addEventListener('wheel', function (e) {
+    e.preventDefault();
+    var factor = e.deltaY > 0 ? 1.1 : 1 / 1.1;
+    var p = toMap(e);
+    box.x = p.x - (p.x - box.x) * factor;
+    box.y = p.y - (p.y - box.y) * factor;
+    box.width *= factor;
+    box.height *= factor;
+  }, { passive: false });
+  // The map point under the pointer stays under it while dragging
+  var drag = null;
+  svg.addEventListener('pointerdown', function (e) {
+    if (e.target.closest('[data-toggle]')) return;
+    drag = toMap(e);
+    svg.setPointerCapture(e.pointerId);
+  });
+  svg.addEventListener('pointermove', function (e) {
+    if (!drag) return;
+    var p = toMap(e);
+    box.x -= p.x - drag.x;
+    box.y -= p.y - drag.y;
+  });
+  svg.addEventListener('pointerup', function () { drag = null; });
+  document.getElementById('map-reset').onclick = function () {
+    box.x = initial[0]; box.y = initial[1]; box.width = initial[2]; box.height = initial[3];
+  };
+  render();
+})();
+`;
+
+// Self-contained page with the text, a map that can be collapsed, panned and
+// zoomed, and the transcript, for recipients without the app
+export const toHtmlSnapshot = (result: TransformationResult, layout?: MindMapLayoutMode): string => {
+  const { svg } = toSvg(result.mindMap, { labels: 'text', layout, interactive: true });
+  // JSON inside a script element must not contain "</script"
+  const parents = JSON.stringify(parentIds(assignIds(result.mindMap))).replace(/</g, '\\u003c');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    `<title>${escapeHtml(result.mindMap.label)}</title>`,
+    `<style>${STYLES}${SNAPSHOT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    markdownToHtml(result.formalText),
+    '<div id="map">',
+    svg,
+    '<div class="controls">',
+    '<button id="map-expand">全部展开</button>',
+    '<button id="map-collapse">只看一级</button>',
+    '<button id="map-reset">复位</button>',
+    '</div>',
+    '</div>',
+    result.originalTranscription
+      ? `<details><summary>原始转写</summary><p>${escapeHtml(result.originalTranscription)}</p></details>`
+      : '',
+    `<script type="application/json" id="map-parents">${parents}</script>`,
+    `<script>${SNAPSHOT_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
+
+// The formal text with the map appended as an embedded PNG
+export const toMarkdownDocument = async (result: TransformationResult, layout?: MindMapLayoutMode): Promise<string> => {
+  const png = await blobToBase64(await toPng(result.mindMap, 2, layout));
+  return `${result.formalText.trim()}\n\n![${MAP_TITLE}](data:image/png;base64,${png})\n`;
+};
+
+// Word measures images in EMUs; 9525 per CSS pixel
+const EMU_PER_PX = 9525;
+// A4 text area with 1" margins, roughly
+const MAX_IMAGE_EMU = { width: 6 * 914400, height: 8.5 * 914400 };
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const runsXml = (text: string) =>
+  parseInline(text)
+    .map(run => {
+      const props = `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}`;
+      return run.text.split('\n').map((line, i) =>
+        `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`
+      ).join('');
+    })
+    .join('');
+
+const paragraphXml = (text: string, props = '') =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runsXml(text)}</w:p>`;
+
+// Numbered lists each get their own numbering instance so they restart at 1
+const blocksToDocx = (blocks: Block[]) => {
+  const orderedLists: number[] = [];
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return paragraphXml(block.text, `<w:pStyle w:val="Heading${block.level}"/>`);
+      case 'paragraph':
+        return paragraphXml(block.text);
+      case 'list': {
+        let numId = 1;
+        if (block.ordered) {
+          numId = orderedLists.length + 2;
+          orderedLists.push(numId);
+        }
+        const props = `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`;
+        return block.items.map(item => paragraphXml(item, props)).join('');
+      }
+    }
+  });
+  return { body: body.join(''), orderedLists };
+};
+
+const numberingXml = (orderedLists: number[]) => [
+  XML_HEADER,
+  `<w:numbering ${NAMESPACES}>`,
+  '<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="\u2022"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>',
+  '<w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>',
+  '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+  ...orderedLists.map(id =>
+    `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+  ),
+  '</w:numbering>'
+].join('');
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML = [
+  XML_HEADER,
+  `<w:styles ${NAMESPACES}>`,
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>',
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+  headingStyle(1, 36),
+  headingStyle(2, 30),
+  headingStyle(3, 26),
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/></w:pPr></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="18"/></w:rPr></w:style>',
+  '</w:styles>'
+].join('');
+
+const imageXml = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_IMAGE_EMU.width / (width * EMU_PER_PX), MAX_IMAGE_EMU.height / (height * EMU_PER_PX));
+  const cx = Math.round(width * EMU_PER_PX * scale);
+  const cy = Math.round(height * EMU_PER_PX * scale);
+  return '<w:p><w:pPr><w:keepNext/><w:jc w:val="center"/></w:pPr><w:r><w:drawing>' +
+    `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="${MAP_TITLE}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    '<pic:nvPicPr><pic:cNvPr id="1" name="mindmap.png"/><pic:cNvPicPr/></pic:nvPicPr>' +
+    '<pic:blipFill><a:blip r:embed="rIdMindMap"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>' +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>';
+};
+
+// Word document built by hand: text with heading and list styles, then the map as a PNG
+export const toDocx = async (result: TransformationResult, layout?: MindMapLayoutMode): Promise<Blob> => {
+  const { width, height } = toSvg(result.mindMap, { labels: 'text', layout });
+  const png = new Uint8Array(await (await toPng(result.mindMap, 2, layout)).arrayBuffer());
+  const { body, orderedLists } = blocksToDocx(parseDocument(result.formalText).flat());
+
+  const documentXml = [
+    XML_HEADER,
+    `<w:document ${NAMESPACES}><w:body>`,
+    body,
+    imageXml(width, height),
+    paragraphXml(MAP_TITLE, '<w:pStyle w:val="Caption"/>'),
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>',
+    '</w:body></w:document>'
+  ].join('');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="png" ContentType="image/png"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+        '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+        '<Relationship Id="rIdMindMap" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/mindmap.png"/>' +
+        '</Relationships>'
+    },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/numbering.xml', data: numberingXml(orderedLists) },
+    { name: 'word/media/mindmap.png', data: png }
+  ], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
+
+// Opens the browser's print dialog on the HTML document, where it can be saved as PDF
+export const printDocument = (result: TransformationResult, layout?: MindMapLayoutMode): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) {
+        frame.remove();
+        return reject(new Error("无法打开打印预览。"));
+      }
+      view.focus();
+      view.print();
+      // print() blocks until the dialog closes in most browsers; give the rest time
+      setTimeout(() => frame.remove(), 1000);
+      resolve();
+    };
+    frame.srcdoc = toHtmlDocument(result, layout);
+    document.body.appendChild(frame);
+  });
+
+export const exportDocument = async (
+  result: TransformationResult,
+  format: Exclude<DocumentExportFormat, 'pdf'>,
+  layout?: MindMapLayoutMode
+): Promise<{ blob: Blob; filename: string }> => {
+  const base = safeFileName(result.mindMap.label);
+  switch (format) {
+    case 'markdown':
+      return { blob: new Blob([await toMarkdownDocument(result, layout)], { type: 'text/markdown' }), filename: `${base}.md` };
+    case 'html':
+      return { blob: new Blob([toHtmlDocument(result, layout)], { type: 'text/html' }), filename: `${base}.html` };
+    case 'snapshot':
+      return { blob: new Blob([toHtmlSnapshot(result, layout)], { type: 'text/html' }), filename: `${base}-interactive.html` };
+    case 'docx':
+      return { blob: await toDocx(result, layout), filename: `${base}.docx` };
+  }
+};
@@ -0,0 +1,121 @@
+import { MindMapNode, OutputPreferences, TransformationResult } from '../types';
+import { DEFAULT_PREFERENCES } from '../services/prompt';
+import { validateTransformationResult } from '../services/resultValidator';
+import { splitParagraphs, splitSentences } from './sourceSpans';
+import { parseMarkdownOutline } from './mindMapImport';
+import { stripInline } from './markdown';
+
+// Builds the formal text and mind map from typed notes without a model: the
+// notes' own headings and lists if they have them, otherwise one branch per
+// paragraph (or per line of a chat log) with its sentences below.
+
+const DEFAULT_TITLE = '笔记要点';
+const MAX_LABEL = 30;
+
+// 嗯 呃 额 啊 and English hesitations, with the comma that usually follows
+const FILLERS = /(?:^|(?<=[\s,.!?\uff0c\u3002\uff01\uff1f]))(?:[\u55ef\u5443\u989d\u554a]+|um+|uh+|erm)(?=[\s,.!?\uff0c\u3002\uff01\uff1f]|$)[\s,\uff0c]*/gi;
+// "[10:02] 张三：" or "Alice:" at the start of a chat or meeting log line
+const SPEAKER_PREFIX = /^\s*(?:\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s*)?[^\s:\uff1a\[\]]{1,20}\s*[:\uff1a]\s*/;
+const HEADING = /^#{1,6}\s+\S/;
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+\S/;
+const SENTENCE_END = /[\u3002\uff01\uff1f!?.\uff1b;]$/;
+
+const stripFillers = (text: string) => text.replace(FILLERS, '').trim();
+
+// Text of a sentence, label or paragraph reduced to what they have in common
+const compact = (text: string) =>
+  stripFillers(stripInline(text.replace(/^\s*(?:#+|[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/gm, '')))
+    .replace(/\s+/g, '')
+    .replace(/\u2026$/, '');
+
+const summarize = (sentence: string) => {
+  const label = stripInline(sentence).replace(/[\u3002\uff01\uff1f!?.\uff1b;\uff0c,]+$/, '').trim();
+  return label.length > MAX_LABEL ? `${label.slice(0, MAX_LABEL)}…` : label;
+};
+
+// CJK sentences run together, others need a space between them
+const joinSentences = (sentences: string[]) =>
+  sentences.reduce((text, s) => (!text ? s : /[\u3000-\u9fff\uff00-\uffef]$/.test(text) ? text + s : `${text} ${s}`), '');
+
+const sentencesOf = (text: string) => splitSentences(stripFillers(text)).map(s => stripFillers(s.text)).filter(Boolean);
+
+// Splits `items` into at most `count` runs of about the same length
+const chunk = <T>(items: T[], count: number): T[][] => {
+  const size = Math.ceil(items.length / Math.max(1, count));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const isStructured = (lines: string[]) =>
+  lines.some(l => HEADING.test(l)) || lines.filter(l => BULLET.test(l)).length >= 2;
+
+const outlineProse = (text: string, { maxDepth, maxBranches }: OutputPreferences) => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const isChat = lines.length >= 2 && lines.filter(l => SPEAKER_PREFIX.test(l)).length >= lines.length * 0.6;
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  let units = paragraphs.length === 1 && (isChat || lines.length > 2) ? lines : paragraphs;
+  if (isChat) units = units.map(u => u.split('\n').map(l => l.replace(SPEAKER_PREFIX, '')).join('\n'));
+
+  // A short first line without end punctuation reads as a title
+  let title = DEFAULT_TITLE;
+  if (units.length > 1 && !isChat && !units[0].includes('\n') && units[0].length <= MAX_LABEL && !SENTENCE_END.test(units[0])) {
+    title = summarize(units.shift()!);
+  }
+
+  let groups = units.map(sentencesOf).filter(s => s.length > 0);
+  // One long paragraph is cut into runs of sentences
+  if (groups.length === 1) groups = chunk(groups[0], Math.min(maxBranches, Math.ceil(groups[0].length / 3)));
+  // Too many paragraphs are merged with their neighbours
+  if (groups.length > maxBranches) groups = chunk(groups, maxBranches).map(g => g.flat());
+
+  const branches: MindMapNode[] = groups.map(sentences => ({
+    label: summarize(sentences[0]),
+    ...(maxDepth > 1 && sentences.length > 1
+      ? { children: sentences.slice(1, maxBranches + 1).map(s => ({ label: summarize(s) })) }
+      : {})
+  }));
+  const formalText = groups
+    .map((sentences, i) => `## ${branches[i].label}\n\n${joinSentences(sentences)}`)
+    .join('\n\n');
+  return { formalText, mindMap: { label: title, children: branches } };
+};
+
+export const outlineText = (text: string, preferences: OutputPreferences = DEFAULT_PREFERENCES): TransformationResult => {
+  const original = text.replace(/\r\n?/g, '\n').trim();
+  let formalText: string;
+  let mindMap: MindMapNode;
+  if (isStructured(original.split('\n'))) {
+    formalText = original.split('\n').map(stripFillers).join('\n');
+    mindMap = parseMarkdownOutline(formalText, DEFAULT_TITLE);
+  } else {
+    ({ formalText, mindMap } = outlineProse(original, preferences));
+  }
+
+  // Sources are the transcript sentences a node label or paragraph was taken from
+  const sentences = splitSentences(original);
+  const keys = sentences.map(s => compact(s.text));
+  const sourcesOf = (fragment: string) => {
+    const key = compact(fragment);
+    return key ? keys.flatMap((k, i) => (k && (key.includes(k) || k.includes(key)) ? [i] : [])) : [];
+  };
+  const withSources = (node: MindMapNode): object => {
+    const children = (node.children || []).map(withSources) as { sources: number[] }[];
+    const own = sourcesOf(node.label);
+    return {
+      ...node,
+      sources: own.length > 0 ? own : [...new Set(children.flatMap(c => c.sources))],
+      ...(children.length > 0 ? { children } : {})
+    };
+  };
+
+  return validateTransformationResult(
+    {
+      originalTranscription: original,
+      formalText,
+      paragraphSources: splitParagraphs(formalText).map(sourcesOf),
+      mindMap: withSources(mindMap)
+    },
+    { maxDepth: preferences.maxDepth, transcriptSegments: sentences }
+  );
+};
@@ -0,0 +1,144 @@
+import { splitParagraphs } from './sourceSpans';
+
+// The subset of Markdown the formal text is written in: headings, paragraphs
+// (lines within one keep their breaks), bullet and numbered lists, bold and italic.
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*\u2022]\s+(.*)$/;
+const NUMBERED = /^\s*\d+(?:[.)]\s+|\u3001\s*)(.*)$/;
+
+// Blocks of one paragraph of the formal text (see splitParagraphs)
+export const parseBlocks = (paragraph: string): Block[] => {
+  const blocks: Block[] = [];
+  for (const line of paragraph.split('\n')) {
+    const last = blocks[blocks.length - 1];
+    const heading = line.match(HEADING);
+    const bullet = line.match(BULLET);
+    const numbered = !bullet && line.match(NUMBERED);
+    if (heading) {
+      blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3) as 1 | 2 | 3, text: heading[2].trim() });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const item = ((bullet || numbered) as RegExpMatchArray)[1].trim();
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(item);
+      else blocks.push({ type: 'list', ordered, items: [item] });
+    } else if (line.trim()) {
+      if (last?.type === 'paragraph') last.text += `\n${line.trim()}`;
+      else blocks.push({ type: 'paragraph', text: line.trim() });
+    }
+  }
+  return blocks;
+};
+
+// One entry per paragraph, so paragraph i lines up with paragraphSources[i]
+export const parseDocument = (text: string): Block[][] => splitParagraphs(text).map(parseBlocks);
+
+export const blockToMarkdown = (block: Block): string => {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'list':
+      return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${item}`).join('\n');
+    case 'paragraph':
+      return block.text;
+  }
+};
+
+// **bold** and *italic* spans of a line of text
+export const parseInline = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*/g;
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > cursor) runs.push({ text: text.slice(cursor, match.index) });
+    runs.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], italic: true });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < text.length) runs.push({ text: text.slice(cursor) });
+  return runs;
+};
+
+export const stripInline = (text: string) => parseInline(text).map(r => r.text).join('');
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (text: string) =>
+  parseInline(text)
+    .map(run => {
+      const html = escapeHtml(run.text).replace(/\n/g, '<br>');
+      return run.bold ? `<strong>${html}</strong>` : run.italic ? `<em>${html}</em>` : html;
+    })
+    .join('');
+
+export const blockToHtml = (block: Block, attributes = ''): string => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}${attributes}>${inlineToHtml(block.text)}</h${block.level}>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}${attributes}>${block.items.map(item => `<li>${inlineToHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'paragraph':
+      return `<p${attributes}>${inlineToHtml(block.text)}</p>`;
+  }
+};
+
+// Blocks carry the index of the paragraph they came from when `tagParagraphs` is set
+export const markdownToHtml = (text: string, tagParagraphs = false): string =>
+  parseDocument(text)
+    .flatMap((blocks, i) => blocks.map(block => blockToHtml(block, tagParagraphs ? ` data-paragraph="${i}"` : '')))
+    .join('\n');
+
+const inlineFromDom = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\u00a0/g, ' ');
+  if (!(node instanceof HTMLElement)) return '';
+  if (node.tagName === 'BR') return '\n';
+  const inner = Array.from(node.childNodes).map(inlineFromDom).join('');
+  if (!inner.trim()) return inner;
+  if (node.tagName === 'STRONG' || node.tagName === 'B') return `**${inner}**`;
+  if (node.tagName === 'EM' || node.tagName === 'I') return `*${inner}*`;
+  // Nested blocks, e.g. a div the browser put inside a paragraph, start a new line
+  if (node.tagName === 'DIV' || node.tagName === 'P') return `\n${inner}`;
+  return inner;
+};
+
+const cleanLines = (text: string) =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+
+// Reads the Markdown back from a contentEditable rendering of markdownToHtml.
+// Every top-level element becomes a paragraph of its own.
+export const htmlToMarkdown = (root: HTMLElement): string => {
+  const paragraphs: string[] = [];
+  for (const node of Array.from(root.childNodes)) {
+    if (!(node instanceof HTMLElement)) {
+      const text = cleanLines(node.textContent || '');
+      if (text) paragraphs.push(text);
+      continue;
+    }
+    const tag = node.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      const text = cleanLines(inlineFromDom(node)).replace(/\n/g, ' ');
+      if (text) paragraphs.push(blockToMarkdown({ type: 'heading', level: Math.min(Number(tag[1]), 3) as 1 | 2 | 3, text }));
+    } else if (tag === 'UL' || tag === 'OL') {
+      const items = Array.from(node.querySelectorAll(':scope > li'))
+        .map(li => cleanLines(inlineFromDom(li)).replace(/\n/g, ' '))
+        .filter(Boolean);
+      if (items.length > 0) paragraphs.push(blockToMarkdown({ type: 'list', ordered: tag === 'OL', items }));
+    } else {
+      const text = cleanLines(inlineFromDom(node));
+      if (text) paragraphs.push(text);
+    }
+  }
+  return paragraphs.join('\n\n');
+};
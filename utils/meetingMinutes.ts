@@ -0,0 +1,96 @@
+import { ActionItem, MeetingMinutes, MindMapNode, OutputLanguage, TransformationResult } from '../types';
+import { labelKey } from './mindMapTree';
+
+const LABELS = {
+  zh: { attendees: '参会人员', decisions: '决议', actionItems: '待办事项', owner: '负责人', due: '截止', none: '无' },
+  en: { attendees: 'Attendees', decisions: 'Decisions', actionItems: 'Action items', owner: 'Owner', due: 'Due', none: 'None' }
+};
+
+const labelsFor = (language?: OutputLanguage) => (language === 'en' ? LABELS.en : LABELS.zh);
+
+export const isEmptyMinutes = (minutes: MeetingMinutes) =>
+  minutes.attendees.length === 0 && minutes.decisions.length === 0 && minutes.actionItems.length === 0;
+
+export const formatActionItem = (item: ActionItem, language?: OutputLanguage) => {
+  const labels = labelsFor(language);
+  const details = [
+    item.owner ? `${labels.owner}：${item.owner}` : '',
+    item.due ? `${labels.due}：${item.due}` : ''
+  ].filter(Boolean);
+  return details.length > 0 ? `${item.task}（${details.join('；')}）` : item.task;
+};
+
+// The minutes as paragraphs to append to the formal text
+export const minutesToText = (minutes: MeetingMinutes, language?: OutputLanguage): string => {
+  const labels = labelsFor(language);
+  const list = (items: string[]) =>
+    items.length > 0 ? items.map((item, i) => `${i + 1}. ${item}`).join('\n') : labels.none;
+  return [
+    `${labels.attendees}：${minutes.attendees.join('、') || labels.none}`,
+    `${labels.decisions}：\n${list(minutes.decisions)}`,
+    `${labels.actionItems}：\n${list(minutes.actionItems.map(item => formatActionItem(item, language)))}`
+  ].join('\n\n');
+};
+
+export const minutesToBranches = (minutes: MeetingMinutes, language?: OutputLanguage): MindMapNode[] => {
+  const labels = labelsFor(language);
+  const branch = (label: string, items: string[]): MindMapNode =>
+    items.length > 0 ? { label, children: items.map(item => ({ label: item })) } : { label };
+  return [
+    branch(labels.attendees, minutes.attendees),
+    branch(labels.decisions, minutes.decisions),
+    branch(labels.actionItems, minutes.actionItems.map(item => formatActionItem(item, language)))
+  ];
+};
+
+// Writes the minutes into the formal text and gives them their own branches
+// under the map root, replacing branches of the same name the model made.
+export const applyMinutes = (result: TransformationResult, language?: OutputLanguage): TransformationResult => {
+  if (!result.minutes || isEmptyMinutes(result.minutes)) return result;
+  const branches = minutesToBranches(result.minutes, language);
+  const keys = new Set(branches.map(b => labelKey(b.label)));
+  const kept = (result.mindMap.children || []).filter(c => !keys.has(labelKey(c.label)));
+  return {
+    ...result,
+    formalText: `${result.formalText.trim()}\n\n${minutesToText(result.minutes, language)}`,
+    mindMap: { ...result.mindMap, children: [...kept, ...branches] }
+  };
+};
+
+// Undoes applyMinutes so results can be merged and the minutes written once.
+// The block is recognised in either language; text that was edited since is
+// left as it is.
+export const removeMinutes = (result: TransformationResult): TransformationResult => {
+  if (!result.minutes || isEmptyMinutes(result.minutes)) return result;
+  const text = result.formalText.trim();
+  for (const language of ['zh-CN', 'en'] as OutputLanguage[]) {
+    const block = minutesToText(result.minutes, language);
+    if (!text.endsWith(block)) continue;
+    const keys = new Set(minutesToBranches(result.minutes, language).map(b => labelKey(b.label)));
+    return {
+      ...result,
+      formalText: text.slice(0, -block.length).trim(),
+      mindMap: { ...result.mindMap, children: (result.mindMap.children || []).filter(c => !keys.has(labelKey(c.label))) }
+    };
+  }
+  return result;
+};
+
+const unique = <T>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+export const mergeMinutes = (a?: MeetingMinutes, b?: MeetingMinutes): MeetingMinutes | undefined => {
+  if (!a || !b) return a || b;
+  return {
+    attendees: unique([...a.attendees, ...b.attendees], labelKey),
+    decisions: unique([...a.decisions, ...b.decisions], labelKey),
+    actionItems: unique([...a.actionItems, ...b.actionItems], item => labelKey(item.task))
+  };
+};
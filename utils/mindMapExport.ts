@@ -0,0 +1,279 @@
+import { MindMapNode, NodeIcon, NodePriority, NodeStatus } from '../types';
+import { assignIds } from './mindMapTree';
+import { MIND_MAP_LAYOUT, MindMapLayoutMode, edgePath, layoutBounds, layoutMindMap } from './mindMapLayout';
+import { NODE_COLORS, branchColors } from './nodeStyle';
+import { createZip } from './zip';
+
+export type MindMapExportFormat = 'markdown' | 'opml' | 'freemind' | 'xmind' | 'svg' | 'png';
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Root becomes a heading, everything below it a nested bullet list. Tasks
+// become checklist items; other metadata has no Markdown form.
+export const toMarkdownOutline = (root: MindMapNode): string => {
+  const lines = [`# ${root.label}`, ''];
+  const visit = (node: MindMapNode, depth: number) => {
+    const checkbox = node.status ? `[${node.status === 'done' ? 'x' : ' '}] ` : '';
+    lines.push(`${'  '.repeat(depth)}- ${checkbox}${node.label}`);
+    node.children?.forEach(c => visit(c, depth + 1));
+  };
+  root.children?.forEach(c => visit(c, 0));
+  return lines.join('\n') + '\n';
+};
+
+// OPML has no metadata of its own beyond the common _note attribute, so the
+// rest is kept in attributes named after the fields
+const opmlAttributes = (node: MindMapNode): string =>
+  [
+    `text="${escapeXml(node.label)}"`,
+    node.note ? `_note="${escapeXml(node.note)}"` : '',
+    node.color ? `color="${node.color}"` : '',
+    node.priority ? `priority="${node.priority}"` : '',
+    node.icon ? `icon="${node.icon}"` : '',
+    node.status ? `status="${node.status}"` : '',
+    node.tags?.length ? `tags="${escapeXml(node.tags.join(','))}"` : ''
+  ].filter(Boolean).join(' ');
+
+export const toOpml = (root: MindMapNode): string => {
+  const visit = (node: MindMapNode, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const text = opmlAttributes(node);
+    if (!node.children?.length) return `${indent}<outline ${text}/>`;
+    return [
+      `${indent}<outline ${text}>`,
+      ...node.children.map(c => visit(c, depth + 1)),
+      `${indent}</outline>`
+    ].join('\n');
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(root.label)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    visit(root, 2),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+// FreeMind's built-in icons closest to the node metadata
+export const FREEMIND_ICONS: Record<NodeIcon, string> = {
+  idea: 'idea',
+  risk: 'messagebox_warning',
+  action: 'launch',
+  decision: 'yes',
+  question: 'help',
+  star: 'bookmark'
+};
+export const FREEMIND_PRIORITIES: Record<NodePriority, string> = { high: 'full-1', medium: 'full-2', low: 'full-3' };
+export const FREEMIND_STATUSES: Record<NodeStatus, string> = { todo: 'hourglass', done: 'button_ok' };
+
+// FreeMind .mm, also readable by Freeplane and most desktop mind-mapping tools
+export const toFreeMind = (root: MindMapNode): string => {
+  let counter = 0;
+  const visit = (node: MindMapNode, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const attrs = [
+      `ID="ID_${++counter}"`,
+      `TEXT="${escapeXml(node.label)}"`,
+      // First-level branches need a side; FreeMind mirrors them otherwise
+      depth === 2 ? 'POSITION="right"' : '',
+      node.color ? `COLOR="${NODE_COLORS[node.color].stroke}" BACKGROUND_COLOR="${NODE_COLORS[node.color].fill}"` : ''
+    ].filter(Boolean).join(' ');
+    const icons = [
+      node.status && FREEMIND_STATUSES[node.status],
+      node.priority && FREEMIND_PRIORITIES[node.priority],
+      node.icon && FREEMIND_ICONS[node.icon]
+    ].filter(Boolean);
+    const inner = [
+      ...icons.map(icon => `${indent}  <icon BUILTIN="${icon}"/>`),
+      ...(node.note
+        ? [`${indent}  <richcontent TYPE="NOTE"><html><head/><body><p>${escapeXml(node.note)}</p></body></html></richcontent>`]
+        : []),
+      // Freeplane attribute; FreeMind shows it too
+      ...(node.tags?.length ? [`${indent}  <attribute NAME="tags" VALUE="${escapeXml(node.tags.join(','))}"/>`] : []),
+      ...(node.children || []).map(c => visit(c, depth + 1))
+    ];
+    if (inner.length === 0) return `${indent}<node ${attrs}/>`;
+    return [`${indent}<node ${attrs}>`, ...inner, `${indent}</node>`].join('\n');
+  };
+  return ['<map version="1.0.1">', visit(root, 1), '</map>', ''].join('\n');
+};
+
+const XMIND_PRIORITIES: Record<NodePriority, string> = { high: 'priority-1', medium: 'priority-2', low: 'priority-3' };
+
+// content.json as used inside .xmind (XMind Zen and later) files
+export const toXMindJson = (root: MindMapNode): string => {
+  const withIds = assignIds(root);
+  // XMind has markers for priority and task progress; icons have no
+  // reliable counterpart and are left out
+  const markers = (node: MindMapNode) => [
+    ...(node.priority ? [{ markerId: XMIND_PRIORITIES[node.priority] }] : []),
+    ...(node.status ? [{ markerId: node.status === 'done' ? 'task-done' : 'task-start' }] : [])
+  ];
+  const topic = (node: MindMapNode): Record<string, unknown> => ({
+    id: node.id,
+    class: 'topic',
+    title: node.label,
+    ...(markers(node).length ? { markers: markers(node) } : {}),
+    ...(node.note ? { notes: { plain: { content: node.note } } } : {}),
+    ...(node.tags?.length ? { labels: node.tags } : {}),
+    ...(node.color ? { style: { properties: { 'svg:fill': NODE_COLORS[node.color].fill, 'border-line-color': NODE_COLORS[node.color].stroke } } } : {}),
+    ...(node.children?.length ? { children: { attached: node.children.map(topic) } } : {})
+  });
+  const sheet = {
+    id: 'sheet-1',
+    class: 'sheet',
+    title: root.label,
+    rootTopic: { ...topic(withIds), structureClass: 'org.xmind.ui.logic.right' }
+  };
+  return JSON.stringify([sheet], null, 2);
+};
+
+// A .xmind file is a ZIP of content.json plus a manifest listing the entries
+export const toXMind = (root: MindMapNode): Blob =>
+  createZip([
+    { name: 'content.json', data: toXMindJson(root) },
+    { name: 'metadata.json', data: JSON.stringify({ creator: { name: 'Speech2Formal' } }) },
+    { name: 'manifest.json', data: JSON.stringify({ 'file-entries': { 'content.json': {}, 'metadata.json': {} } }) }
+  ], 'application/vnd.xmind.workbook');
+
+export interface SvgExportOptions {
+  // 'foreignObject' keeps the on-screen HTML labels; 'text' uses plain SVG
+  // text, which is what canvas rasterization and most editors handle reliably
+  labels?: 'foreignObject' | 'text';
+  padding?: number;
+  layout?: MindMapLayoutMode;
+  // Tags every node's shapes with data-node and adds collapse toggles, for
+  // pages that script the map
+  interactive?: boolean;
+}
+
+// Parent id of every node but the root
+export const parentIds = (root: MindMapNode): Record<string, string> => {
+  const parents: Record<string, string> = {};
+  const visit = (node: MindMapNode) => node.children?.forEach(child => {
+    parents[child.id!] = node.id!;
+    visit(child);
+  });
+  visit(root);
+  return parents;
+};
+
+export const toSvg = (root: MindMapNode, options: SvgExportOptions = {}): { svg: string; width: number; height: number } => {
+  const { labels = 'foreignObject', padding = 40, layout: mode = 'right', interactive = false } = options;
+  const { fontSize, lineHeight } = MIND_MAP_LAYOUT;
+  const withIds = assignIds(root);
+  const layout = layoutMindMap(withIds, new Set(), mode);
+  const colors = branchColors(withIds);
+  const stroke = (id: string, fallback: string) => (colors.has(id) ? NODE_COLORS[colors.get(id)!].stroke : fallback);
+  const fills = new Map<string, string>();
+  const visit = (node: MindMapNode) => {
+    if (node.color) fills.set(node.id!, NODE_COLORS[node.color].fill);
+    node.children?.forEach(visit);
+  };
+  visit(withIds);
+  const tag = (id: string) => (interactive ? ` data-node="${escapeXml(id)}"` : '');
+  const bounds = layoutBounds(layout);
+  const width = Math.ceil(bounds.width + padding * 2);
+  const height = Math.ceil(bounds.height + padding * 2);
+  const font = `font-family="-apple-system, BlinkMacSystemFont, 'PingFang SC', 'Microsoft YaHei', sans-serif"`;
+
+  const parts: string[] = [];
+  for (const edge of layout.extraEdges) {
+    parts.push(`<path d="${edgePath(edge)}" fill="none" stroke="#94a3b8" stroke-width="4" stroke-linecap="round"/>`);
+  }
+  for (const node of layout.nodes) {
+    if (node.edge) parts.push(`<path${tag(node.id)} d="${edgePath(node.edge)}" fill="none" stroke="${stroke(node.id, '#cbd5e1')}" stroke-opacity="0.6" stroke-width="2"/>`);
+  }
+  for (const node of layout.nodes) {
+    if (interactive) parts.push(`<g${tag(node.id)}>`);
+    parts.push(`<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="${fills.get(node.id) || '#ffffff'}" stroke="${stroke(node.id, '#e2e8f0')}" stroke-width="1.5"/>`);
+    if (labels === 'foreignObject') {
+      parts.push(
+        `<foreignObject x="${node.x + 5}" y="${node.y + 5}" width="${node.width - 10}" height="${node.height - 10}">` +
+        `<div xmlns="http://www.w3.org/1999/xhtml" style="height:100%;display:flex;align-items:center;justify-content:center;text-align:center;font-size:${fontSize}px;font-weight:700;color:#1e293b;line-height:${lineHeight}px;overflow:hidden;word-break:break-all;font-family:-apple-system,BlinkMacSystemFont,'PingFang SC','Microsoft YaHei',sans-serif">` +
+        `${escapeXml(node.label)}</div></foreignObject>`
+      );
+    } else {
+      const cx = node.x + node.width / 2;
+      const firstY = node.y + node.height / 2 - ((node.lines.length - 1) * lineHeight) / 2;
+      const tspans = node.lines
+        .map((l, i) => `<tspan x="${cx}" y="${firstY + i * lineHeight}">${escapeXml(l)}</tspan>`)
+        .join('');
+      parts.push(`<text ${font} font-size="${fontSize}" font-weight="700" fill="#1e293b" text-anchor="middle" dominant-baseline="middle">${tspans}</text>`);
+    }
+    if (interactive && node.hasChildren) {
+      parts.push(
+        `<g data-toggle="${escapeXml(node.id)}" style="cursor:pointer">` +
+        `<circle cx="${node.toggle.x}" cy="${node.toggle.y}" r="8" fill="#ffffff" stroke="#6366f1" stroke-width="1.5"/>` +
+        `<text ${font} x="${node.toggle.x}" y="${node.toggle.y}" font-size="12" fill="#6366f1" text-anchor="middle" dominant-baseline="central">\u2212</text></g>`
+      );
+    }
+    if (interactive) parts.push('</g>');
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#f8fafc"/>`,
+    `<g transform="translate(${padding - bounds.minX}, ${padding - bounds.minY})">`,
+    ...parts,
+    '</g>',
+    '</svg>'
+  ].join('\n');
+  return { svg, width, height };
+};
+
+export const toPng = (root: MindMapNode, scale = 2, layout?: MindMapLayoutMode): Promise<Blob> => {
+  const { svg, width, height } = toSvg(root, { labels: 'text', layout });
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("无法创建画布。"));
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG 生成失败。"))), 'image/png');
+    };
+    image.onerror = () => reject(new Error("SVG 渲染失败。"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+};
+
+export const safeFileName = (label: string) =>
+  label.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'mindmap';
+
+export const exportMindMap = async (
+  root: MindMapNode,
+  format: MindMapExportFormat,
+  layout?: MindMapLayoutMode
+): Promise<{ blob: Blob; filename: string }> => {
+  const base = safeFileName(root.label);
+  switch (format) {
+    case 'markdown':
+      return { blob: new Blob([toMarkdownOutline(root)], { type: 'text/markdown' }), filename: `${base}.md` };
+    case 'opml':
+      return { blob: new Blob([toOpml(root)], { type: 'text/x-opml' }), filename: `${base}.opml` };
+    case 'freemind':
+      return { blob: new Blob([toFreeMind(root)], { type: 'application/x-freemind' }), filename: `${base}.mm` };
+    case 'xmind':
+      return { blob: toXMind(root), filename: `${base}.xmind` };
+    case 'svg':
+      return { blob: new Blob([toSvg(root, { layout }).svg], { type: 'image/svg+xml' }), filename: `${base}.svg` };
+    case 'png':
+      return { blob: await toPng(root, 2, layout), filename: `${base}.png` };
+  }
+};
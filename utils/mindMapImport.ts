@@ -0,0 +1,183 @@
+import { MindMapNode, NodeStatus } from '../types';
+import { normalizeMindMap } from '../services/resultValidator';
+import { NODE_COLORS, parseNodeMeta } from './nodeStyle';
+import { FREEMIND_ICONS, FREEMIND_PRIORITIES, FREEMIND_STATUSES } from './mindMapExport';
+
+export type MindMapImportFormat = 'markdown' | 'opml' | 'freemind';
+
+export class MindMapImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MindMapImportError';
+  }
+}
+
+interface OutlineItem {
+  level: number;
+  label: string;
+  // Checklist items are tasks
+  status?: NodeStatus;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.+)$/;
+
+// Builds a tree from items in document order; a deeper item becomes a child of
+// the nearest preceding shallower one.
+const treeFromOutline = (items: OutlineItem[], fallbackTitle: string): MindMapNode => {
+  const root: MindMapNode = { label: fallbackTitle, children: [] };
+  const stack: { level: number; node: MindMapNode }[] = [{ level: -1, node: root }];
+  for (const item of items) {
+    while (stack[stack.length - 1].level >= item.level) stack.pop();
+    const node: MindMapNode = { label: item.label, ...(item.status ? { status: item.status } : {}) };
+    const parent = stack[stack.length - 1].node;
+    (parent.children ||= []).push(node);
+    stack.push({ level: item.level, node });
+  }
+  // A single top-level item is the real root
+  if (root.children!.length === 1) return root.children![0];
+  return root;
+};
+
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`|~~)(.+?)\1/g, '$2')
+    .trim();
+
+// Headings set the level; bullets nest below the most recent heading by indentation.
+export const parseMarkdownOutline = (text: string, fallbackTitle = '导入的大纲'): MindMapNode => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const indents = lines
+    .map(l => l.match(BULLET)?.[1].replace(/\t/g, '    ').length)
+    .filter((n): n is number => !!n);
+  const indentUnit = indents.length > 0 ? Math.min(...indents) : 2;
+
+  const items: OutlineItem[] = [];
+  let headingLevel = 0;
+  let inCodeBlock = false;
+  for (const line of lines) {
+    if (/^\s*```/.test(line)) inCodeBlock = !inCodeBlock;
+    if (inCodeBlock) continue;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      headingLevel = heading[1].length;
+      items.push({ level: headingLevel, label: stripInlineMarkdown(heading[2]) });
+      continue;
+    }
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      const depth = Math.round(bullet[1].replace(/\t/g, '    ').length / indentUnit);
+      const status: NodeStatus | undefined = bullet[2] ? (bullet[2] === ' ' ? 'todo' : 'done') : undefined;
+      items.push({ level: headingLevel + 1 + depth, label: stripInlineMarkdown(bullet[3]), status });
+    }
+  }
+  if (items.length === 0) throw new MindMapImportError("未在 Markdown 中找到标题或列表项。");
+  return treeFromOutline(items, fallbackTitle);
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new MindMapImportError("文件不是有效的 XML。");
+  }
+  return doc;
+};
+
+const childElements = (el: Element, tagName: string) =>
+  Array.from(el.children).filter(c => c.tagName.toLowerCase() === tagName);
+
+export const parseOpml = (text: string, fallbackTitle = '导入的大纲'): MindMapNode => {
+  const doc = parseXml(text);
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) throw new MindMapImportError("OPML 文件缺少 body 元素。");
+
+  const toNode = (el: Element): MindMapNode => ({
+    label: el.getAttribute('text') || el.getAttribute('title') || '',
+    ...parseNodeMeta({
+      note: el.getAttribute('_note'),
+      color: el.getAttribute('color'),
+      priority: el.getAttribute('priority'),
+      icon: el.getAttribute('icon'),
+      status: el.getAttribute('status'),
+      tags: el.getAttribute('tags')
+    }),
+    children: childElements(el, 'outline').map(toNode)
+  });
+  const outlines = childElements(body, 'outline').map(toNode);
+  if (outlines.length === 0) throw new MindMapImportError("OPML 文件中没有大纲条目。");
+  if (outlines.length === 1) return outlines[0];
+
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  return { label: title || fallbackTitle, children: outlines };
+};
+
+export const parseFreeMind = (text: string): MindMapNode => {
+  const doc = parseXml(text);
+  const map = doc.documentElement;
+  const rootEl = map && map.tagName === 'map' ? childElements(map, 'node')[0] : undefined;
+  if (!rootEl) throw new MindMapImportError("FreeMind 文件缺少根节点。");
+
+  // Long labels are stored as HTML in <richcontent TYPE="NODE"> instead of TEXT
+  const labelOf = (el: Element) => {
+    const rich = childElements(el, 'richcontent').find(r => (r.getAttribute('TYPE') || 'NODE') === 'NODE');
+    return el.getAttribute('TEXT') || rich?.textContent || '';
+  };
+  const builtin = <T extends string>(icons: string[], names: Record<T, string>) =>
+    (Object.keys(names) as T[]).find(key => icons.includes(names[key]));
+  const metaOf = (el: Element) => {
+    const icons = childElements(el, 'icon').map(i => i.getAttribute('BUILTIN') || '');
+    const color = el.getAttribute('COLOR')?.toLowerCase();
+    return parseNodeMeta({
+      color: Object.keys(NODE_COLORS).find(c => NODE_COLORS[c as keyof typeof NODE_COLORS].stroke === color),
+      icon: builtin(icons, FREEMIND_ICONS),
+      priority: builtin(icons, FREEMIND_PRIORITIES),
+      status: builtin(icons, FREEMIND_STATUSES),
+      note: childElements(el, 'richcontent').find(r => r.getAttribute('TYPE') === 'NOTE')?.textContent,
+      tags: childElements(el, 'attribute').find(a => a.getAttribute('NAME') === 'tags')?.getAttribute('VALUE') ?? undefined
+    });
+  };
+  const toNode = (el: Element): MindMapNode => ({
+    label: labelOf(el),
+    ...metaOf(el),
+    children: childElements(el, 'node').map(toNode)
+  });
+  return toNode(rootEl);
+};
+
+export const detectImportFormat = (fileName: string, text: string): MindMapImportFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'opml') return 'opml';
+  if (ext === 'mm') return 'freemind';
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') return 'markdown';
+  const head = text.trimStart().slice(0, 200);
+  if (/<opml[\s>]/i.test(head)) return 'opml';
+  if (/<map[\s>]/.test(head)) return 'freemind';
+  return null;
+};
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.opml,.mm';
+
+export const importMindMap = async (file: File): Promise<MindMapNode> => {
+  const text = await file.text();
+  const title = file.name.replace(/\.[^.]+$/, '') || undefined;
+  const format = detectImportFormat(file.name, text);
+  let tree: MindMapNode;
+  switch (format) {
+    case 'opml':
+      tree = parseOpml(text, title);
+      break;
+    case 'freemind':
+      tree = parseFreeMind(text);
+      break;
+    case 'markdown':
+      tree = parseMarkdownOutline(text, title);
+      break;
+    default:
+      throw new MindMapImportError("不支持的文件格式。请导入 Markdown、OPML 或 FreeMind (.mm) 文件。");
+  }
+  // Imported outlines keep their full depth
+  return normalizeMindMap(tree, { maxDepth: Infinity });
+};
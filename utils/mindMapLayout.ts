@@ -0,0 +1,511 @@
+import { MindMapNode } from '../types';
+
+export type MindMapLayoutMode = 'right' | 'balanced' | 'topDown' | 'radial' | 'fishbone';
+
+export const LAYOUT_MODES: { id: MindMapLayoutMode; label: string; icon: string }[] = [
+  { id: 'right', label: '向右展开', icon: 'fa-arrow-right' },
+  { id: 'balanced', label: '左右平衡', icon: 'fa-arrows-left-right' },
+  { id: 'topDown', label: '组织结构图', icon: 'fa-sitemap' },
+  { id: 'radial', label: '放射状', icon: 'fa-circle-nodes' },
+  { id: 'fishbone', label: '鱼骨图', icon: 'fa-fish' }
+];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 'horizontal' and 'vertical' are S-curves that leave and enter along that axis
+export interface LayoutEdge {
+  from: Point;
+  to: Point;
+  style: 'horizontal' | 'vertical' | 'straight';
+}
+
+export interface LayoutNode {
+  id: string;
+  label: string;
+  // Label wrapped to the node width
+  lines: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  // Connection from the parent, absent for the root
+  edge?: LayoutEdge;
+  // Where the collapse toggle sits
+  toggle: Point;
+  hasChildren: boolean;
+  isCollapsed: boolean;
+}
+
+export interface MindMapLayout {
+  nodes: LayoutNode[];
+  // Edges not owned by a node, e.g. the fishbone spine
+  extraEdges: LayoutEdge[];
+  // Axis along which siblings are arranged; drag-and-drop reorders along it
+  siblingAxis: 'x' | 'y';
+}
+
+export const MIND_MAP_LAYOUT = {
+  fontSize: 11,
+  lineHeight: 14,
+  paddingX: 12,
+  paddingY: 10,
+  minWidth: 80,
+  maxWidth: 220,
+  minHeight: 40,
+  maxLines: 8,
+  // Space between depth levels and between neighbouring subtrees
+  levelGap: 60,
+  siblingGap: 20
+};
+
+const isWide = (ch: string) => /[\u2e80-\u9fff\uac00-\ud7af\uff00-\uffef]/.test(ch);
+
+const glyphWidth = (ch: string, fontSize: number) => (isWide(ch) ? fontSize : fontSize * 0.6);
+
+// Greedy line wrapping by estimated glyph width; SVG <text> cannot wrap by itself
+export const wrapLabel = (label: string, maxWidth: number, fontSize: number, maxLines = 3): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  let width = 0;
+  for (const ch of label) {
+    const w = glyphWidth(ch, fontSize);
+    if (width + w > maxWidth && line) {
+      lines.push(line);
+      line = '';
+      width = 0;
+    }
+    line += ch;
+    width += w;
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = kept[maxLines - 1].slice(0, -1) + '…';
+    return kept;
+  }
+  return lines;
+};
+
+const textWidth = (text: string, fontSize: number) =>
+  Array.from(text).reduce((sum, ch) => sum + glyphWidth(ch, fontSize), 0);
+
+export const measureLabel = (label: string) => {
+  const { fontSize, lineHeight, paddingX, paddingY, minWidth, maxWidth, minHeight, maxLines } = MIND_MAP_LAYOUT;
+  const lines = wrapLabel(label, maxWidth - paddingX * 2, fontSize, maxLines);
+  const widest = Math.max(0, ...lines.map(l => textWidth(l, fontSize)));
+  return {
+    lines,
+    width: Math.ceil(Math.min(maxWidth, Math.max(minWidth, widest + paddingX * 2))),
+    height: Math.ceil(Math.max(minHeight, lines.length * lineHeight + paddingY * 2))
+  };
+};
+
+interface Box {
+  id: string;
+  label: string;
+  lines: string[];
+  width: number;
+  height: number;
+  depth: number;
+  hasChildren: boolean;
+  isCollapsed: boolean;
+  // Visible children only
+  children: Box[];
+  // Filled in by the layout functions
+  x: number;
+  y: number;
+  edge?: LayoutEdge;
+  toggle?: Point;
+}
+
+const buildBoxes = (node: MindMapNode, depth: number, collapsedIds: Set<string>): Box => {
+  const hasChildren = !!node.children?.length;
+  const isCollapsed = hasChildren && collapsedIds.has(node.id!);
+  return {
+    id: node.id!,
+    label: node.label,
+    ...measureLabel(node.label),
+    depth,
+    hasChildren,
+    isCollapsed,
+    children: hasChildren && !isCollapsed
+      ? node.children!.map(c => buildBoxes(c, depth + 1, collapsedIds))
+      : [],
+    x: 0,
+    y: 0
+  };
+};
+
+const center = (b: Box): Point => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+const leftMid = (b: Box): Point => ({ x: b.x, y: b.y + b.height / 2 });
+const rightMid = (b: Box): Point => ({ x: b.x + b.width, y: b.y + b.height / 2 });
+const topMid = (b: Box): Point => ({ x: b.x + b.width / 2, y: b.y });
+const bottomMid = (b: Box): Point => ({ x: b.x + b.width / 2, y: b.y + b.height });
+
+// Point where the line from the box centre towards `target` leaves the box
+const borderPoint = (b: Box, target: Point): Point => {
+  const c = center(b);
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const scale = Math.min(
+    dx !== 0 ? b.width / 2 / Math.abs(dx) : Infinity,
+    dy !== 0 ? b.height / 2 / Math.abs(dy) : Infinity
+  );
+  return { x: c.x + dx * scale, y: c.y + dy * scale };
+};
+
+const walk = (b: Box, visit: (b: Box, parent?: Box) => void, parent?: Box) => {
+  visit(b, parent);
+  b.children.forEach(c => walk(c, visit, b));
+};
+
+// Classic tidy stacking along one axis: leaves are laid out one after another
+// and every parent is centred on its first and last child. `size` is a box's
+// extent along the stacking axis; `setCenter` receives the computed centre.
+const stackTree = (root: Box, offset: number, size: (b: Box) => number, setCenter: (b: Box, c: number) => void) => {
+  const { siblingGap } = MIND_MAP_LAYOUT;
+  const extents = new Map<Box, number>();
+  const extent = (b: Box): number => {
+    if (!extents.has(b)) {
+      const childrenSpan = b.children.reduce((sum, c) => sum + extent(c), 0) + siblingGap * Math.max(0, b.children.length - 1);
+      extents.set(b, Math.max(size(b), childrenSpan));
+    }
+    return extents.get(b)!;
+  };
+
+  const place = (b: Box, start: number): number => {
+    const block = extent(b);
+    if (b.children.length === 0) {
+      setCenter(b, start + block / 2);
+      return block;
+    }
+    const childrenSpan = b.children.reduce((sum, c) => sum + extent(c), 0) + siblingGap * (b.children.length - 1);
+    let cursor = start + (block - childrenSpan) / 2;
+    const centers: number[] = [];
+    for (const child of b.children) {
+      place(child, cursor);
+      centers.push(cursor + extent(child) / 2);
+      cursor += extent(child) + siblingGap;
+    }
+    setCenter(b, (centers[0] + centers[centers.length - 1]) / 2);
+    return block;
+  };
+
+  return place(root, offset);
+};
+
+// Position along the depth axis for each level, from the widest box per level
+const levelOffsets = (root: Box, size: (b: Box) => number, start: number): number[] => {
+  const maxPerLevel: number[] = [];
+  walk(root, b => {
+    maxPerLevel[b.depth] = Math.max(maxPerLevel[b.depth] || 0, size(b));
+  });
+  const offsets: number[] = [];
+  let cursor = start;
+  maxPerLevel.forEach((max, depth) => {
+    offsets[depth] = cursor;
+    cursor += max + MIND_MAP_LAYOUT.levelGap;
+  });
+  return offsets;
+};
+
+// Horizontal tree growing to the right (dir 1) or left (dir -1) of x = start
+const layoutHorizontal = (root: Box, dir: 1 | -1, start: number, stackOffset: number) => {
+  const columns = levelOffsets(root, b => b.width, start);
+  stackTree(root, stackOffset, b => b.height, (b, c) => { b.y = c - b.height / 2; });
+  walk(root, b => {
+    b.x = dir === 1 ? columns[b.depth] : -columns[b.depth] - b.width;
+  });
+  walk(root, (b, parent) => {
+    b.toggle = dir === 1 ? rightMid(b) : leftMid(b);
+    if (parent) {
+      b.edge = dir === 1
+        ? { from: rightMid(parent), to: leftMid(b), style: 'horizontal' }
+        : { from: leftMid(parent), to: rightMid(b), style: 'horizontal' };
+    }
+  });
+};
+
+const layoutRight = (root: Box) => {
+  layoutHorizontal(root, 1, 0, 0);
+};
+
+const layoutBalanced = (root: Box) => {
+  root.x = -root.width / 2;
+  root.y = -root.height / 2;
+  const weights = root.children.map(c => {
+    let leaves = 0;
+    walk(c, b => { if (b.children.length === 0) leaves += b.height + MIND_MAP_LAYOUT.siblingGap; });
+    return leaves;
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+  // First branches go right until half the weight is used, the rest go left
+  let acc = 0;
+  let split = root.children.length;
+  for (let i = 0; i < root.children.length; i++) {
+    if (acc >= total / 2) {
+      split = i;
+      break;
+    }
+    acc += weights[i];
+  }
+  const sides: [Box[], 1 | -1][] = [[root.children.slice(0, split), 1], [root.children.slice(split), -1]];
+
+  for (const [children, dir] of sides) {
+    if (children.length === 0) continue;
+    // A stand-in root of zero size lets both halves reuse the one-sided layout
+    const half: Box = { ...root, width: 0, height: 0, children };
+    const extent = stackTree(half, 0, b => b.height, () => {});
+    layoutHorizontal(half, dir, root.width / 2, -extent / 2);
+    for (const child of children) {
+      child.edge = dir === 1
+        ? { from: rightMid(root), to: leftMid(child), style: 'horizontal' }
+        : { from: leftMid(root), to: rightMid(child), style: 'horizontal' };
+    }
+  }
+  root.toggle = rightMid(root);
+};
+
+const layoutTopDown = (root: Box) => {
+  const rows = levelOffsets(root, b => b.height, 0);
+  stackTree(root, 0, b => b.width, (b, c) => { b.x = c - b.width / 2; });
+  walk(root, (b, parent) => {
+    b.y = rows[b.depth];
+    b.toggle = bottomMid(b);
+    if (parent) b.edge = { from: bottomMid(parent), to: topMid(b), style: 'vertical' };
+  });
+};
+
+const layoutRadial = (root: Box) => {
+  const leafCount = new Map<Box, number>();
+  const countLeaves = (b: Box): number => {
+    const n = b.children.length === 0 ? 1 : b.children.reduce((sum, c) => sum + countLeaves(c), 0);
+    leafCount.set(b, n);
+    return n;
+  };
+  countLeaves(root);
+
+  // Ring radius per depth: far enough from the previous ring for the widest
+  // boxes, and large enough in circumference for all boxes on that ring
+  const maxSize: number[] = [];
+  const perLevel: number[] = [];
+  walk(root, b => {
+    maxSize[b.depth] = Math.max(maxSize[b.depth] || 0, b.width);
+    perLevel[b.depth] = (perLevel[b.depth] || 0) + 1;
+  });
+  const radii = [0];
+  for (let d = 1; d < maxSize.length; d++) {
+    const byDistance = radii[d - 1] + (maxSize[d - 1] + maxSize[d]) / 2 + MIND_MAP_LAYOUT.levelGap / 2;
+    const byCircumference = (perLevel[d] * (MIND_MAP_LAYOUT.minHeight + MIND_MAP_LAYOUT.siblingGap)) / (2 * Math.PI);
+    radii[d] = Math.max(byDistance, byCircumference);
+  }
+
+  const place = (b: Box, from: number, to: number) => {
+    const angle = (from + to) / 2;
+    const r = radii[b.depth];
+    b.x = Math.cos(angle) * r - b.width / 2;
+    b.y = Math.sin(angle) * r - b.height / 2;
+    let cursor = from;
+    for (const child of b.children) {
+      const span = ((to - from) * leafCount.get(child)!) / leafCount.get(b)!;
+      place(child, cursor, cursor + span);
+      cursor += span;
+    }
+  };
+  place(root, -Math.PI / 2, (Math.PI * 3) / 2);
+
+  walk(root, (b, parent) => {
+    const c = center(b);
+    const outward = b === root ? { x: c.x + 1, y: c.y } : { x: c.x * 2, y: c.y * 2 };
+    b.toggle = borderPoint(b, outward);
+    if (parent) b.edge = { from: borderPoint(parent, c), to: borderPoint(b, center(parent)), style: 'straight' };
+  });
+};
+
+const FISHBONE_SLANT = 0.5;
+
+const layoutFishbone = (root: Box, extraEdges: LayoutEdge[]) => {
+  const { levelGap, siblingGap } = MIND_MAP_LAYOUT;
+  const indent = 32;
+  root.x = 0;
+  root.y = -root.height / 2;
+  root.toggle = leftMid(root);
+
+  const cursors = { top: -levelGap, bottom: -levelGap * 2 };
+  let minX = 0;
+
+  root.children.forEach((category, i) => {
+    const side = i % 2 === 0 ? -1 : 1;
+    const key = side === -1 ? 'top' : 'bottom';
+
+    // Causes are listed along the bone, nearest to the spine first
+    const items: Box[] = [];
+    category.children.forEach(c => walk(c, b => { items.push(b); }));
+    let distance = levelGap / 2;
+    const rowDistance = new Map<Box, number>();
+    for (const item of items) {
+      rowDistance.set(item, distance + item.height / 2);
+      distance += item.height + siblingGap / 2;
+    }
+    const boneLength = distance + category.height / 2 + siblingGap;
+    const rightExtent = Math.max(category.width / 2, ...items.map(b => indent * (b.depth - 1) + 8 + b.width));
+
+    const baseX = cursors[key] - rightExtent;
+    const boneX = (d: number) => baseX - d * FISHBONE_SLANT;
+
+    for (const item of items) {
+      const d = rowDistance.get(item)!;
+      item.x = boneX(d) + 8 + indent * (item.depth - 2);
+      item.y = side * d - item.height / 2;
+      item.toggle = rightMid(item);
+    }
+    category.x = boneX(boneLength) - category.width / 2;
+    category.y = side * boneLength - category.height / 2;
+    category.toggle = side === -1 ? topMid(category) : bottomMid(category);
+    category.edge = {
+      from: { x: baseX, y: 0 },
+      to: side === -1 ? bottomMid(category) : topMid(category),
+      style: 'straight'
+    };
+    walk(category, (b, parent) => {
+      if (!parent || b === category) return;
+      const y = b.y + b.height / 2;
+      b.edge = parent === category
+        ? { from: { x: boneX(Math.abs(y)), y }, to: leftMid(b), style: 'straight' }
+        : { from: { x: parent.x + 6, y: side === -1 ? parent.y : parent.y + parent.height }, to: leftMid(b), style: 'straight' };
+    });
+
+    const leftMost = Math.min(category.x, ...items.map(b => b.x), boneX(boneLength));
+    minX = Math.min(minX, leftMost);
+    cursors[key] = leftMost - levelGap;
+  });
+
+  extraEdges.push({ from: { x: minX - levelGap / 2, y: 0 }, to: leftMid(root), style: 'straight' });
+};
+
+// Lays out the visible part of the tree. Nodes must already carry ids (see
+// assignIds); children of collapsed nodes are left out of the result.
+export const layoutMindMap = (
+  root: MindMapNode,
+  collapsedIds: Set<string> = new Set(),
+  mode: MindMapLayoutMode = 'right'
+): MindMapLayout => {
+  const tree = buildBoxes(root, 0, collapsedIds);
+  const extraEdges: LayoutEdge[] = [];
+  switch (mode) {
+    case 'balanced':
+      layoutBalanced(tree);
+      break;
+    case 'topDown':
+      layoutTopDown(tree);
+      break;
+    case 'radial':
+      layoutRadial(tree);
+      break;
+    case 'fishbone':
+      layoutFishbone(tree, extraEdges);
+      break;
+    case 'right':
+    default:
+      layoutRight(tree);
+  }
+
+  const nodes: LayoutNode[] = [];
+  walk(tree, b => {
+    nodes.push({
+      id: b.id,
+      label: b.label,
+      lines: b.lines,
+      x: b.x,
+      y: b.y,
+      width: b.width,
+      height: b.height,
+      depth: b.depth,
+      edge: b.edge,
+      toggle: b.toggle || rightMid(b),
+      hasChildren: b.hasChildren,
+      isCollapsed: b.isCollapsed
+    });
+  });
+  return { nodes, extraEdges, siblingAxis: mode === 'topDown' ? 'x' : 'y' };
+};
+
+export const edgePath = ({ from, to, style }: LayoutEdge): string => {
+  if (style === 'horizontal') {
+    const dx = (to.x - from.x) / 2;
+    return `M ${from.x} ${from.y} C ${from.x + dx} ${from.y}, ${to.x - dx} ${to.y}, ${to.x} ${to.y}`;
+  }
+  if (style === 'vertical') {
+    const dy = (to.y - from.y) / 2;
+    return `M ${from.x} ${from.y} C ${from.x} ${from.y + dy}, ${to.x} ${to.y - dy}, ${to.x} ${to.y}`;
+  }
+  return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+};
+
+export const layoutBounds = ({ nodes, extraEdges }: MindMapLayout) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const n of nodes) {
+    xs.push(n.x, n.x + n.width);
+    ys.push(n.y, n.y + n.height);
+  }
+  for (const e of extraEdges) {
+    xs.push(e.from.x, e.to.x);
+    ys.push(e.from.y, e.to.y);
+  }
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    minX,
+    minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+};
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+// The laid-out node closest to `from` in a direction, for arrow-key navigation.
+// Distance across the direction counts double, so that nodes roughly in line
+// win over nearer ones off to the side.
+export const nearestNode = (nodes: LayoutNode[], from: LayoutNode, direction: Direction): LayoutNode | null => {
+  const cx = from.x + from.width / 2;
+  const cy = from.y + from.height / 2;
+  let best: LayoutNode | null = null;
+  let bestScore = Infinity;
+  for (const node of nodes) {
+    if (node.id === from.id) continue;
+    const dx = node.x + node.width / 2 - cx;
+    const dy = node.y + node.height / 2 - cy;
+    const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+    const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 0) continue;
+    const score = along + across * 2;
+    if (score < bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const countNodes = (root: MindMapNode): number =>
+  1 + (root.children || []).reduce((sum, c) => sum + countNodes(c), 0);
+
+// Ids of all nodes with children at `depth` or deeper, i.e. what to collapse
+// so that only `depth` levels below the root stay visible
+export const idsBelowDepth = (root: MindMapNode, depth: number): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (node: MindMapNode, level: number) => {
+    if (!node.children?.length) return;
+    if (level >= depth) ids.add(node.id!);
+    node.children.forEach(c => visit(c, level + 1));
+  };
+  visit(root, 0);
+  return ids;
+};
@@ -0,0 +1,183 @@
+import { MindMapNode } from '../types';
+import { unionSpans } from './sourceSpans';
+
+// Pure, immutable operations on a MindMapNode tree. Every function returns a
+// new tree and leaves the input untouched, so results can go straight into
+// React state and undo history.
+
+export const createNodeId = () => `n-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Gives every node a unique id. Existing unique ids are kept; missing or
+// duplicate ones are derived from the node's path so the result is stable
+// for the same input.
+export const assignIds = (root: MindMapNode): MindMapNode => {
+  const seen = new Set<string>();
+  const visit = (node: MindMapNode, path: string): MindMapNode => {
+    let id = node.id && !seen.has(node.id) ? node.id : path;
+    while (seen.has(id)) id = `${id}'`;
+    seen.add(id);
+    return {
+      ...node,
+      id,
+      children: node.children?.map((c, i) => visit(c, `${path}-${i}`))
+    };
+  };
+  return visit(root, 'root');
+};
+
+export const findNode = (root: MindMapNode, id: string): MindMapNode | null => {
+  if (root.id === id) return root;
+  for (const child of root.children || []) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findParent = (root: MindMapNode, id: string): MindMapNode | null => {
+  for (const child of root.children || []) {
+    if (child.id === id) return root;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// The nodes from the root down to `id`, both included; empty if it is not in the tree
+export const pathTo = (root: MindMapNode, id: string): MindMapNode[] => {
+  if (root.id === id) return [root];
+  for (const child of root.children || []) {
+    const path = pathTo(child, id);
+    if (path.length > 0) return [root, ...path];
+  }
+  return [];
+};
+
+// Ids of the nodes whose label contains `query`, ignoring case, in outline order
+export const searchNodes = (root: MindMapNode, query: string): string[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const ids: string[] = [];
+  const visit = (node: MindMapNode) => {
+    if (node.label.toLowerCase().includes(needle)) ids.push(node.id!);
+    node.children?.forEach(visit);
+  };
+  visit(root);
+  return ids;
+};
+
+export const isDescendant = (root: MindMapNode, ancestorId: string, id: string): boolean => {
+  const ancestor = findNode(root, ancestorId);
+  return !!ancestor && ancestor.id !== id && !!findNode(ancestor, id);
+};
+
+const mapNode = (root: MindMapNode, id: string, update: (node: MindMapNode) => MindMapNode): MindMapNode => {
+  if (root.id === id) return update(root);
+  if (!root.children) return root;
+  let changed = false;
+  const children = root.children.map(child => {
+    const next = mapNode(child, id, update);
+    if (next !== child) changed = true;
+    return next;
+  });
+  return changed ? { ...root, children } : root;
+};
+
+export const renameNode = (root: MindMapNode, id: string, label: string): MindMapNode => {
+  const trimmed = label.trim();
+  if (!trimmed) return root;
+  return mapNode(root, id, node => ({ ...node, label: trimmed }));
+};
+
+export type NodePatch = Partial<Omit<MindMapNode, 'id' | 'children'>>;
+
+// Sets fields of a node; fields given as undefined are removed
+export const updateNode = (root: MindMapNode, id: string, patch: NodePatch): MindMapNode =>
+  mapNode(root, id, node => {
+    const next: MindMapNode = { ...node, ...patch };
+    for (const key of Object.keys(patch) as (keyof typeof patch)[]) {
+      if (patch[key] === undefined) delete next[key];
+    }
+    return next;
+  });
+
+export const insertChild = (root: MindMapNode, parentId: string, child: MindMapNode, index?: number): MindMapNode =>
+  mapNode(root, parentId, node => {
+    const children = [...(node.children || [])];
+    children.splice(index ?? children.length, 0, child);
+    return { ...node, children };
+  });
+
+export const addChild = (root: MindMapNode, parentId: string, label = '新节点'): { tree: MindMapNode; id: string } => {
+  const id = createNodeId();
+  return { tree: insertChild(root, parentId, { id, label }), id };
+};
+
+// Adding a sibling to the root is not possible, so it falls back to a child.
+export const addSibling = (root: MindMapNode, id: string, label = '新节点'): { tree: MindMapNode; id: string } => {
+  const parent = findParent(root, id);
+  if (!parent) return addChild(root, id, label);
+  const newId = createNodeId();
+  const index = parent.children!.findIndex(c => c.id === id) + 1;
+  return { tree: insertChild(root, parent.id!, { id: newId, label }, index), id: newId };
+};
+
+export const removeNode = (root: MindMapNode, id: string): MindMapNode => {
+  if (root.id === id) return root;
+  const parent = findParent(root, id);
+  if (!parent) return root;
+  return mapNode(root, parent.id!, node => {
+    const children = node.children!.filter(c => c.id !== id);
+    return { ...node, children: children.length > 0 ? children : undefined };
+  });
+};
+
+// Moves a subtree under `targetParentId` at `index` (in the target's children
+// as they are before the move). Moves onto itself or its own descendants are ignored.
+export const moveNode = (root: MindMapNode, id: string, targetParentId: string, index?: number): MindMapNode => {
+  if (root.id === id || id === targetParentId || isDescendant(root, id, targetParentId)) return root;
+  const node = findNode(root, id);
+  const oldParent = findParent(root, id);
+  if (!node || !oldParent) return root;
+
+  let insertAt = index;
+  if (insertAt !== undefined && oldParent.id === targetParentId) {
+    const oldIndex = oldParent.children!.findIndex(c => c.id === id);
+    if (oldIndex < insertAt) insertAt--;
+  }
+  return insertChild(removeNode(root, id), targetParentId, node, insertAt);
+};
+
+export const labelKey = (label: string) =>
+  label.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+const mergeChildren = (target: MindMapNode[], extra: MindMapNode[]): MindMapNode[] => {
+  const result = [...target];
+  for (const node of extra) {
+    const index = result.findIndex(n => labelKey(n.label) === labelKey(node.label));
+    if (index === -1) {
+      result.push(node);
+    } else if (node.children?.length || node.sources) {
+      const match = result[index];
+      const merged = { ...match, sources: unionSpans(match.sources, node.sources) };
+      if (node.children?.length) merged.children = mergeChildren(match.children || [], node.children);
+      if (!merged.sources) delete merged.sources;
+      result[index] = merged;
+    }
+  }
+  return result;
+};
+
+// Folds `incoming` into `base`, matching nodes by label at each level. The
+// base root is kept; a differently labelled incoming root contributes its
+// children, unless its label matches one of the base's top-level branches.
+export const mergeMindMaps = (base: MindMapNode, incoming: MindMapNode): MindMapNode => {
+  const sameRoot = labelKey(base.label) === labelKey(incoming.label);
+  const matchesBranch = base.children?.some(c => labelKey(c.label) === labelKey(incoming.label));
+  const extra = sameRoot ? incoming.children || [] : matchesBranch ? [incoming] : incoming.children || [];
+  const children = mergeChildren(base.children || [], extra);
+  const merged: MindMapNode = { ...base, children: children.length > 0 ? children : undefined };
+  const sources = sameRoot ? unionSpans(base.sources, incoming.sources) : base.sources;
+  if (sources) merged.sources = sources;
+  return merged;
+};
@@ -0,0 +1,90 @@
+import { MindMapNode, NodeColor, NodeIcon, NodePriority, NodeStatus } from '../types';
+
+// Display names and values of the node metadata, shared by the map, its
+// property editor, the exports and the result validator
+
+export const NODE_COLORS: Record<NodeColor, { label: string; stroke: string; fill: string }> = {
+  red: { label: '红色', stroke: '#ef4444', fill: '#fef2f2' },
+  orange: { label: '橙色', stroke: '#f97316', fill: '#fff7ed' },
+  yellow: { label: '黄色', stroke: '#eab308', fill: '#fefce8' },
+  green: { label: '绿色', stroke: '#22c55e', fill: '#f0fdf4' },
+  blue: { label: '蓝色', stroke: '#3b82f6', fill: '#eff6ff' },
+  purple: { label: '紫色', stroke: '#a855f7', fill: '#faf5ff' },
+  gray: { label: '灰色', stroke: '#94a3b8', fill: '#f8fafc' }
+};
+
+// First-level branches without a colour of their own take these in turn
+const BRANCH_PALETTE: NodeColor[] = ['blue', 'orange', 'green', 'purple', 'red', 'yellow'];
+
+export const NODE_ICONS: Record<NodeIcon, { label: string; icon: string; color: string }> = {
+  idea: { label: '想法', icon: 'fa-lightbulb', color: '#eab308' },
+  risk: { label: '风险', icon: 'fa-triangle-exclamation', color: '#ef4444' },
+  action: { label: '行动项', icon: 'fa-bolt', color: '#f97316' },
+  decision: { label: '决定', icon: 'fa-gavel', color: '#6366f1' },
+  question: { label: '问题', icon: 'fa-circle-question', color: '#3b82f6' },
+  star: { label: '重点', icon: 'fa-star', color: '#f59e0b' }
+};
+
+export const NODE_PRIORITIES: Record<NodePriority, { label: string; short: string; color: string }> = {
+  high: { label: '高优先级', short: 'P1', color: '#dc2626' },
+  medium: { label: '中优先级', short: 'P2', color: '#d97706' },
+  low: { label: '低优先级', short: 'P3', color: '#64748b' }
+};
+
+export const NODE_STATUSES: Record<NodeStatus, string> = {
+  todo: '待办',
+  done: '已完成'
+};
+
+const oneOf = <T extends string>(options: Record<T, unknown>, value: unknown): T | undefined =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value) ? (value as T) : undefined;
+
+// The valid metadata fields of an untrusted node, e.g. model output or an import
+export const parseNodeMeta = (value: Record<string, unknown>): Partial<MindMapNode> => {
+  const meta: Partial<MindMapNode> = {};
+  const color = oneOf(NODE_COLORS, value.color);
+  if (color) meta.color = color;
+  const priority = oneOf(NODE_PRIORITIES, value.priority);
+  if (priority) meta.priority = priority;
+  const icon = oneOf(NODE_ICONS, value.icon);
+  if (icon) meta.icon = icon;
+  const status = oneOf(NODE_STATUSES, value.status);
+  if (status) meta.status = status;
+  if (typeof value.note === 'string' && value.note.trim()) meta.note = value.note.trim();
+  const tags = parseTags(value.tags);
+  if (tags.length > 0) meta.tags = tags;
+  return meta;
+};
+
+// Tags from an array or a comma-separated string, trimmed and without duplicates
+export const parseTags = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,，、]/) : [];
+  const tags = raw
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.trim().replace(/^#/, ''))
+    .filter(Boolean);
+  return [...new Set(tags)];
+};
+
+// Metadata fields of a node, for formats that pass them through unchanged
+export const nodeMeta = ({ color, priority, icon, note, tags, status }: MindMapNode): Partial<MindMapNode> => ({
+  ...(color ? { color } : {}),
+  ...(priority ? { priority } : {}),
+  ...(icon ? { icon } : {}),
+  ...(note ? { note } : {}),
+  ...(tags?.length ? { tags } : {}),
+  ...(status ? { status } : {})
+});
+
+// Colour of every node's branch: its own colour, else the nearest ancestor's,
+// else the palette colour of its first-level branch. The root has none.
+export const branchColors = (root: MindMapNode): Map<string, NodeColor> => {
+  const colors = new Map<string, NodeColor>();
+  const visit = (node: MindMapNode, inherited: NodeColor) => {
+    const color = node.color || inherited;
+    colors.set(node.id!, color);
+    node.children?.forEach(child => visit(child, color));
+  };
+  root.children?.forEach((branch, i) => visit(branch, BRANCH_PALETTE[i % BRANCH_PALETTE.length]));
+  return colors;
+};
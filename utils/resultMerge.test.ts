@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { TransformationResult } from '../types';
+import { applyMinutes } from './meetingMinutes';
+import { mergeResults, mergeSegmentResults } from './resultMerge';
+
+const segment = (originalTranscription: string, formalText: string): TransformationResult => ({
+  originalTranscription,
+  formalText,
+  mindMap: { label: '会议' }
+});
+
+describe('mergeSegmentResults', () => {
+  it('continues a section whose heading a later segment repeats', () => {
+    const merged = mergeSegmentResults([
+      segment('一', '## 进度\n\n一期完成。\n\n## 风险\n\n人手不足。'),
+      segment('二', '## 进度\n\n二期开始。')
+    ]);
+    expect(merged.formalText).toBe('## 进度\n\n一期完成。\n\n二期开始。\n\n## 风险\n\n人手不足。');
+  });
+
+  it('keeps text before the first heading in the section the previous segment ended in', () => {
+    const merged = mergeSegmentResults([
+      segment('一', '## 进度\n\n一期完成。\n\n## 风险\n\n人手不足。'),
+      segment('二', '预算也偏紧。\n\n## 计划\n\n下周测试。')
+    ]);
+    expect(merged.formalText).toBe('## 进度\n\n一期完成。\n\n## 风险\n\n人手不足。\n\n预算也偏紧。\n\n## 计划\n\n下周测试。');
+  });
+
+  it('drops paragraphs repeated at the boundary only within the same section', () => {
+    const merged = mergeSegmentResults([
+      segment('一', '## 进度\n\n待定。\n\n## 风险\n\n人手不足。'),
+      segment('二', '人手不足。\n\n## 计划\n\n待定。')
+    ]);
+    expect(merged.formalText).toBe('## 进度\n\n待定。\n\n## 风险\n\n人手不足。\n\n## 计划\n\n待定。');
+  });
+
+  it('tells subheadings apart by the section they are in', () => {
+    const merged = mergeSegmentResults([
+      segment('一', '## 进度\n\n### 细节\n\n甲。\n\n## 风险\n\n### 细节\n\n乙。'),
+      segment('二', '## 进度\n\n### 细节\n\n丙。')
+    ]);
+    expect(merged.formalText).toBe('## 进度\n\n### 细节\n\n甲。\n\n丙。\n\n## 风险\n\n### 细节\n\n乙。');
+  });
+
+  it('keeps paragraph sources in step with the merged paragraphs', () => {
+    const a = { ...segment('一期完成。', '## 进度\n\n一期完成。\n\n## 风险'), paragraphSources: [[], [{ from: 0, to: 5 }], []] };
+    const b = { ...segment('二期开始。', '## 进度\n\n二期开始。'), paragraphSources: [[], [{ from: 0, to: 5 }]] };
+    const merged = mergeSegmentResults([a, b]);
+    expect(merged.formalText).toBe('## 进度\n\n一期完成。\n\n二期开始。\n\n## 风险');
+    expect(merged.paragraphSources!.map(s => s.map(span => span.from))).toEqual([[], [0], [6], []]);
+  });
+});
+
+describe('mergeResults', () => {
+  const session = (text: string, decision: string) =>
+    applyMinutes({ ...segment(text, text), minutes: { attendees: ['张三'], decisions: [decision], actionItems: [] } });
+
+  it('writes the minutes of both sessions once', () => {
+    const merged = mergeResults(session('第一场。', '上线'), session('第二场。', '延期'));
+    expect(merged.formalText).toBe('第一场。\n\n第二场。\n\n参会人员：张三\n\n决议：\n1. 上线\n2. 延期\n\n待办事项：\n无');
+    expect(merged.mindMap.children!.map(c => c.label)).toEqual(['参会人员', '决议', '待办事项']);
+    expect(merged.mindMap.children![1].children!.map(c => c.label)).toEqual(['上线', '延期']);
+  });
+
+  it('moves timings onto the joined recording when given where the later one starts', () => {
+    const timed = (text: string): TransformationResult => ({
+      ...segment(text, text),
+      segments: [{ text, from: 0, to: text.length, start: 1, end: 2 }]
+    });
+    const timings = (r: TransformationResult) => r.segments!.map(s => [s.start, s.end]);
+    expect(timings(mergeResults(timed('第一场。'), timed('第二场。'), undefined, 60))).toEqual([[1, 2], [61, 62]]);
+    expect(timings(mergeResults(timed('第一场。'), timed('第二场。')))).toEqual([[undefined, undefined], [1, 2]]);
+  });
+});
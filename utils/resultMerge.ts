@@ -0,0 +1,151 @@
+import { MeetingMinutes, OutputLanguage, SourceSpan, Speaker, TransformationResult } from '../types';
+import { mergeMindMaps } from './mindMapTree';
+import { SpanShift, shiftResultSpans, splitParagraphs, unionSpans } from './sourceSpans';
+import { mergeSpeakers } from './speakers';
+import { applyMinutes, mergeMinutes, removeMinutes } from './meetingMinutes';
+
+const HEADING = /^(#{1,6})\s/;
+
+const joinText = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join('\n\n');
+
+const leadingSpace = (text: string) => text.length - text.trimStart().length;
+
+// paragraphSources padded so that index i always belongs to paragraph i
+const alignedParagraphSources = (result: TransformationResult): SourceSpan[][] =>
+  splitParagraphs(result.formalText).map((_, i) => result.paragraphSources?.[i] || []);
+
+// Adds the optional parts of a merged result only where there is something to keep
+const withExtras = (
+  result: TransformationResult,
+  paragraphSources: SourceSpan[][],
+  parts: TransformationResult[]
+): TransformationResult => {
+  if (result.segments?.length === 0) delete result.segments;
+  if (paragraphSources.some(s => s.length > 0)) result.paragraphSources = paragraphSources;
+  const speakers = parts.reduce((all, r) => mergeSpeakers(all, r.speakers), [] as Speaker[]);
+  if (speakers.length > 0) result.speakers = speakers;
+  const minutes = parts.reduce((all, r) => mergeMinutes(all, r.minutes), undefined as MeetingMinutes | undefined);
+  if (minutes) result.minutes = minutes;
+  return result;
+};
+
+// Appends a later session to an earlier one; the map keeps the earlier root
+// and folds matching branches together by label. With `laterStart`, the
+// seconds at which the later recording starts in the joined audio, all
+// timings are moved onto that audio; without it only the later recording is
+// kept, so the earlier spans lose their timings. Both sides come with their
+// minutes written in; they are taken out and the merged minutes written
+// once, in `language`.
+export const mergeResults = (
+  earlier: TransformationResult,
+  later: TransformationResult,
+  language?: OutputLanguage,
+  laterStart?: number
+): TransformationResult => {
+  const base = removeMinutes(earlier);
+  const incoming = removeMinutes(later);
+  const baseText = base.originalTranscription.trim();
+  const a = shiftResultSpans(base, {
+    chars: -leadingSpace(base.originalTranscription),
+    seconds: laterStart === undefined ? null : 0
+  });
+  const b = shiftResultSpans(incoming, {
+    chars: (baseText ? baseText.length + 2 : 0) - leadingSpace(incoming.originalTranscription),
+    seconds: laterStart ?? 0
+  });
+  return applyMinutes(withExtras(
+    {
+      originalTranscription: joinText(base.originalTranscription, incoming.originalTranscription),
+      formalText: joinText(base.formalText, incoming.formalText),
+      mindMap: mergeMindMaps(a.mindMap, b.mindMap),
+      segments: [...(a.segments || []), ...(b.segments || [])]
+    },
+    [...alignedParagraphSources(a), ...alignedParagraphSources(b)],
+    [base, incoming]
+  ), language);
+};
+
+interface Paragraph {
+  text: string;
+  sources: SourceSpan[];
+}
+
+interface Section {
+  heading: Paragraph | null;
+  body: Paragraph[];
+  // Index into body by whitespace-free text
+  byKey: Map<string, number>;
+}
+
+const paragraphKey = (text: string) => text.replace(/\s+/g, '');
+
+// Combines the results of consecutive segments of one recording. A heading
+// a later segment repeats continues that section instead of starting a new
+// one, text before a segment's first heading continues the section the
+// previous segment ended in, and paragraphs repeated across the boundary
+// are kept once within their section. `startTimes` are the
+// segment offsets in seconds, used to move timings onto the whole recording.
+// Speaker ids are assigned per segment, so the same id in two segments is
+// assumed to be the same person.
+export const mergeSegmentResults = (results: TransformationResult[], startTimes: number[] = []): TransformationResult => {
+  if (results.length === 0) throw new Error("没有可合并的结果。");
+
+  let cursor = 0;
+  const shifted = results.map((r, i) => {
+    const text = r.originalTranscription.trim();
+    const shift: SpanShift = { chars: cursor - leadingSpace(r.originalTranscription), seconds: startTimes[i] ?? 0 };
+    if (text) cursor += text.length + 1;
+    return shiftResultSpans(r, shift);
+  });
+
+  const sections: Section[] = [{ heading: null, body: [], byKey: new Map() }];
+  // Headings are told apart by their path, so "### 细节" under two different
+  // sections stays two sections
+  const byPath = new Map<string, Section>();
+  const open: { level: number; key: string }[] = [];
+  let current = sections[0];
+  for (const r of shifted) {
+    const sources = alignedParagraphSources(r);
+    splitParagraphs(r.formalText).forEach((text, i) => {
+      const key = paragraphKey(text);
+      const heading = text.match(HEADING);
+      if (heading) {
+        const level = heading[1].length;
+        while (open.length > 0 && open[open.length - 1].level >= level) open.pop();
+        open.push({ level, key });
+        const path = open.map(h => h.key).join('/');
+        const existing = byPath.get(path);
+        if (existing?.heading) {
+          existing.heading.sources = unionSpans(existing.heading.sources, sources[i]) || [];
+          current = existing;
+          return;
+        }
+        current = { heading: { text, sources: sources[i] }, body: [], byKey: new Map() };
+        sections.push(current);
+        byPath.set(path, current);
+        return;
+      }
+      const seen = current.byKey.get(key);
+      if (seen !== undefined) {
+        current.body[seen].sources = unionSpans(current.body[seen].sources, sources[i]) || [];
+        return;
+      }
+      current.byKey.set(key, current.body.length);
+      current.body.push({ text, sources: sources[i] });
+    });
+  }
+  const merged = sections.flatMap(s => (s.heading ? [s.heading, ...s.body] : s.body));
+  const paragraphs = merged.map(p => p.text);
+  const paragraphSources = merged.map(p => p.sources);
+
+  return withExtras(
+    {
+      originalTranscription: results.map(r => r.originalTranscription.trim()).filter(Boolean).join('\n'),
+      formalText: paragraphs.join('\n\n'),
+      mindMap: shifted.slice(1).reduce((map, r) => mergeMindMaps(map, r.mindMap), shifted[0].mindMap),
+      segments: shifted.flatMap(r => r.segments || [])
+    },
+    paragraphSources,
+    results
+  );
+};
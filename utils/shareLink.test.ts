@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { TransformationResult } from '../types';
+import { decodeShareFragment, encodeShareFragment } from './shareLink';
+
+// Uncompressed, as browsers without CompressionStream write it
+const fragment = (value: unknown) =>
+  `#share=j${Buffer.from(JSON.stringify(value)).toString('base64url')}`;
+
+const RESULT: TransformationResult = {
+  originalTranscription: '先做一期。再做二期。',
+  formalText: '先完成一期。\n\n再推进二期。',
+  mindMap: {
+    label: '计划',
+    children: [{ label: '一期', sources: [{ from: 0, to: 5, start: 0, end: 2 }] }, { label: '二期' }]
+  },
+  segments: [
+    { text: '先做一期。', from: 0, to: 5, start: 0, end: 2 },
+    { text: '再做二期。', from: 5, to: 10, start: 2, end: 4 }
+  ],
+  paragraphSources: [[{ from: 0, to: 5, start: 0, end: 2 }], [{ from: 5, to: 10, start: 2, end: 4 }]]
+};
+
+describe('decodeShareFragment', () => {
+  it('reads back what was shared, sources included', async () => {
+    expect(await decodeShareFragment(await encodeShareFragment(RESULT))).toEqual(RESULT);
+    expect(await decodeShareFragment(fragment(RESULT))).toEqual(RESULT);
+  });
+
+  it('ignores fragments that are not share links', async () => {
+    expect(await decodeShareFragment('#section-2')).toBeNull();
+  });
+
+  it.each([
+    ['is not JSON', '#share=jbm90IGpzb24'],
+    ['has no formal text', fragment({ ...RESULT, formalText: 1 })],
+    ['has no map', fragment({ ...RESULT, mindMap: null })],
+    ['has a root without a label', fragment({ ...RESULT, mindMap: { children: [] } })]
+  ])('rejects a payload that %s', async (_, hash) => {
+    await expect(decodeShareFragment(hash)).rejects.toThrow('分享链接已损坏或不完整。');
+  });
+
+  it('drops malformed nested parts instead of passing them on', async () => {
+    const decoded = await decodeShareFragment(fragment({
+      ...RESULT,
+      mindMap: { label: '计划', children: { label: '一期' }, sources: [{ from: 'a', to: 5 }] },
+      segments: [{ text: '先做一期。', from: 'x', to: null, start: 'soon' }, { text: '再做二期。' }],
+      paragraphSources: 'all',
+      speakers: { id: 'S1' }
+    }));
+    expect(decoded!.mindMap).toEqual({ label: '计划' });
+    expect(decoded!.segments).toEqual([
+      { text: '先做一期。', from: 0, to: 5 },
+      { text: '再做二期。', from: 5, to: 10 }
+    ]);
+    expect(decoded!.paragraphSources).toBeUndefined();
+    expect(decoded!.speakers).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { SourceSpan, TranscriptSegment, TransformationResult } from '../types';
+import { validateTransformationResult } from '../services/resultValidator';
+import { indicesForSpans } from './sourceSpans';
+
+// Results travel in the URL fragment, which browsers never send to a server
+const FRAGMENT_KEY = 'share';
+
+// Longer links get cut off by chat apps and mail clients
+export const MAX_SHARE_URL_LENGTH = 32000;
+
+// First character of the payload: 'z' for deflated JSON, 'j' for plain JSON
+// where the browser has no CompressionStream
+type Encoding = 'z' | 'j';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeShareFragment = async (result: TransformationResult): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(result));
+  const encoding: Encoding = typeof CompressionStream === 'undefined' ? 'j' : 'z';
+  const bytes = encoding === 'z' ? await pipe(json, new CompressionStream('deflate-raw')) : json;
+  return `#${FRAGMENT_KEY}=${encoding}${toBase64Url(bytes)}`;
+};
+
+export const createShareLink = async (result: TransformationResult): Promise<string> => {
+  const url = `${location.origin}${location.pathname}${await encodeShareFragment(result)}`;
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new Error("结果太长，无法放进分享链接。请改用“导出文档”中的 HTML 快照。");
+  }
+  return url;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSpan = (value: unknown): value is SourceSpan =>
+  isObject(value) && Number.isFinite(value.from) && Number.isFinite(value.to);
+
+const toIndices = (spans: unknown, segments: TranscriptSegment[]) =>
+  Array.isArray(spans) ? indicesForSpans(spans.filter(isSpan), segments) : undefined;
+
+const withSourceIndices = (node: unknown, segments: TranscriptSegment[]): unknown =>
+  isObject(node)
+    ? {
+        ...node,
+        sources: toIndices(node.sources, segments),
+        children: Array.isArray(node.children) ? node.children.map(c => withSourceIndices(c, segments)) : undefined
+      }
+    : node;
+
+// Anyone can craft a link, so the payload goes through the same checks as a
+// model's response. Sources travel as resolved spans while the validator
+// reads indices into the segments, so they are converted once those are known.
+const toResult = (value: unknown): TransformationResult => {
+  const options = { maxDepth: Infinity };
+  const plain = validateTransformationResult(value, options);
+  if (!plain.segments || !isObject(value)) return plain;
+  return validateTransformationResult(
+    {
+      ...value,
+      mindMap: withSourceIndices(value.mindMap, plain.segments),
+      paragraphSources: Array.isArray(value.paragraphSources)
+        ? value.paragraphSources.map(spans => toIndices(spans, plain.segments!) || [])
+        : undefined
+    },
+    options
+  );
+};
+
+// The result in a link's fragment, or null when the fragment is not a share link
+export const decodeShareFragment = async (hash: string): Promise<TransformationResult | null> => {
+  if (!hash.startsWith(`#${FRAGMENT_KEY}=`)) return null;
+  try {
+    const match = hash.match(new RegExp(`^#${FRAGMENT_KEY}=([zj])([A-Za-z0-9_-]+)$`));
+    if (!match) throw new Error("malformed fragment");
+    const encoding = match[1] as Encoding;
+    const bytes = fromBase64Url(match[2]);
+    const json = encoding === 'z' ? await pipe(bytes, new DecompressionStream('deflate-raw')) : bytes;
+    return toResult(JSON.parse(new TextDecoder().decode(json)));
+  } catch {
+    throw new Error("分享链接已损坏或不完整。");
+  }
+};
@@ -0,0 +1,149 @@
+import { MindMapNode, SourceSpan, TranscriptSegment, TransformationResult } from '../types';
+
+// Paragraphs of the formal text, in the order paragraphSources refers to them
+export const splitParagraphs = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+// Sentence-ish pieces of a transcript without timings, for providers that
+// return none; breaks after end punctuation and at line breaks.
+export const splitSentences = (text: string): { text: string }[] =>
+  (text.match(/[^。！？!?.\n]+[。！？!?.]*/g) || [])
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(s => ({ text: s }));
+
+const compact = (text: string) => text.replace(/\s+/g, '');
+
+// Finds each segment in the transcript, searching forward from the previous
+// one. Segments that cannot be found are pinned to where the search stopped.
+export const locateSegments = (
+  transcription: string,
+  raw: { text: string; start?: number; end?: number; speaker?: string }[]
+): TranscriptSegment[] => {
+  let cursor = 0;
+  return raw.map(segment => {
+    const text = segment.text.trim();
+    let from = text ? transcription.indexOf(text, cursor) : -1;
+    // Models tend to reflow whitespace; retry on the first few characters
+    if (from === -1 && compact(text)) from = transcription.indexOf(compact(text).slice(0, 4), cursor);
+    const located: TranscriptSegment = from === -1
+      ? { text, from: cursor, to: cursor }
+      : { text, from, to: Math.min(transcription.length, from + text.length) };
+    if (from !== -1) cursor = located.to;
+    if (segment.start !== undefined) located.start = segment.start;
+    if (segment.end !== undefined) located.end = segment.end;
+    if (segment.speaker) located.speaker = segment.speaker;
+    return located;
+  });
+};
+
+const toSpan = ({ from, to, start, end }: SourceSpan): SourceSpan => {
+  const span: SourceSpan = { from, to };
+  if (start !== undefined) span.start = start;
+  if (end !== undefined) span.end = end;
+  return span;
+};
+
+// Resolves the segment indices a model cited into spans. Unknown indices are
+// ignored and consecutive segments are joined into one span.
+export const spansFromIndices = (value: unknown, segments: TranscriptSegment[]): SourceSpan[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const indices = Array.from(new Set(value.filter((i): i is number => Number.isInteger(i) && i >= 0 && i < segments.length)))
+    .sort((a, b) => a - b);
+  const spans: SourceSpan[] = [];
+  let previous = -2;
+  for (const index of indices) {
+    const segment = segments[index];
+    const last = spans[spans.length - 1];
+    if (last && index === previous + 1) {
+      last.to = segment.to;
+      if (segment.end !== undefined) last.end = segment.end;
+    } else {
+      spans.push(toSpan(segment));
+    }
+    previous = index;
+  }
+  return spans.length > 0 ? spans : undefined;
+};
+
+// The reverse of spansFromIndices: indices of the segments a set of spans covers
+export const indicesForSpans = (spans: SourceSpan[] | undefined, segments: TranscriptSegment[]): number[] =>
+  segments.flatMap((segment, i) => (spans?.some(span => spansOverlap(span, segment)) ? [i] : []));
+
+export const unionSpans = (a?: SourceSpan[], b?: SourceSpan[]): SourceSpan[] | undefined => {
+  const all = [...(a || []), ...(b || [])];
+  if (all.length === 0) return undefined;
+  const seen = new Set<string>();
+  return all
+    .filter(s => {
+      const key = `${s.from}:${s.to}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => x.from - y.from);
+};
+
+export interface SpanShift {
+  // Added to transcript offsets
+  chars: number;
+  // Added to audio times; null drops them because they refer to other audio
+  seconds: number | null;
+}
+
+const shiftSpan = (span: SourceSpan, { chars, seconds }: SpanShift): SourceSpan => {
+  const shifted: SourceSpan = { from: span.from + chars, to: span.to + chars };
+  if (seconds !== null && span.start !== undefined) shifted.start = span.start + seconds;
+  if (seconds !== null && span.end !== undefined) shifted.end = span.end + seconds;
+  return shifted;
+};
+
+const shiftNode = (node: MindMapNode, shift: SpanShift): MindMapNode => ({
+  ...node,
+  ...(node.sources ? { sources: node.sources.map(s => shiftSpan(s, shift)) } : {}),
+  ...(node.children ? { children: node.children.map(c => shiftNode(c, shift)) } : {})
+});
+
+// Moves every span in a result, e.g. when its transcript is appended to another
+export const shiftResultSpans = (result: TransformationResult, shift: SpanShift): TransformationResult => ({
+  ...result,
+  mindMap: shiftNode(result.mindMap, shift),
+  ...(result.segments
+    ? { segments: result.segments.map(s => ({ ...shiftSpan(s, shift), text: s.text, ...(s.speaker ? { speaker: s.speaker } : {}) })) }
+    : {}),
+  ...(result.paragraphSources
+    ? { paragraphSources: result.paragraphSources.map(spans => spans.map(s => shiftSpan(s, shift))) }
+    : {})
+});
+
+// Carries paragraphSources over an edit of the text: a paragraph keeps the
+// sources of the old paragraph it equals or was cut from; with the same number
+// of paragraphs, unmatched ones keep those of the paragraph in their place.
+export const realignParagraphSources = (
+  before: string,
+  sources: SourceSpan[][] | undefined,
+  after: string
+): SourceSpan[][] | undefined => {
+  if (!sources) return undefined;
+  const old = splitParagraphs(before).map(compact);
+  const next = splitParagraphs(after).map(compact);
+  const aligned = next.map((paragraph, i) => {
+    let index = old.indexOf(paragraph);
+    if (index === -1 && paragraph) index = old.findIndex(p => p.includes(paragraph));
+    if (index === -1 && old.length === next.length) index = i;
+    return index === -1 ? [] : sources[index] || [];
+  });
+  return aligned.some(s => s.length > 0) ? aligned : undefined;
+};
+
+export const spansOverlap = (a: SourceSpan, b: SourceSpan) => a.from < b.to && b.from < a.to;
+
+// Audio range covered by a set of spans, if they carry timings
+export const audioRange = (spans: SourceSpan[]): { start: number; end: number } | null => {
+  const timed = spans.filter(s => s.start !== undefined && s.end !== undefined);
+  if (timed.length === 0) return null;
+  return {
+    start: Math.min(...timed.map(s => s.start!)),
+    end: Math.max(...timed.map(s => s.end!))
+  };
+};
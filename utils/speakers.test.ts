@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { TransformationResult } from '../types';
+import { renameSpeaker } from './speakers';
+
+const result = (formalText: string, labels: string[]): TransformationResult => ({
+  originalTranscription: '',
+  formalText,
+  mindMap: { label: '会议', children: labels.map(label => ({ label })) },
+  speakers: [
+    { id: 'S1', name: '说话人 1' },
+    { id: 'S10', name: '说话人 10' },
+    { id: 'S3', name: 'Ann' }
+  ]
+});
+
+describe('renameSpeaker', () => {
+  it('leaves names that only start with the old name alone', () => {
+    const renamed = renameSpeaker(
+      result('说话人 1 提出方案，说话人 10 和说话人 11 同意。', ['说话人 1 的意见', '说话人 10 的意见']),
+      'S1',
+      '张三'
+    );
+    expect(renamed.formalText).toBe('张三 提出方案，说话人 10 和说话人 11 同意。');
+    expect(renamed.mindMap.children!.map(c => c.label)).toEqual(['张三 的意见', '说话人 10 的意见']);
+  });
+
+  it('matches Latin names as whole words', () => {
+    const renamed = renameSpeaker(result('Ann and Anna agreed (Ann).', []), 'S3', 'Annie');
+    expect(renamed.formalText).toBe('Annie and Anna agreed (Annie).');
+  });
+
+  it('treats the new name literally', () => {
+    const renamed = renameSpeaker(result('说话人 1 发言。', []), 'S1', '$& 王');
+    expect(renamed.formalText).toBe('$& 王 发言。');
+  });
+});
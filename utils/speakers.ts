@@ -0,0 +1,65 @@
+import { MeetingMinutes, MindMapNode, Speaker, TranscriptSegment, TransformationResult } from '../types';
+
+export const defaultSpeakerName = (index: number) => `说话人 ${index + 1}`;
+
+// One entry per speaker id used in the segments, in order of first appearance.
+// Names reported by the model are kept; the rest get a numbered default.
+export const resolveSpeakers = (segments: TranscriptSegment[], named: Speaker[] = []): Speaker[] => {
+  const ids: string[] = [];
+  for (const s of segments) if (s.speaker && !ids.includes(s.speaker)) ids.push(s.speaker);
+  return ids.map((id, i) => ({ id, name: named.find(n => n.id === id && n.name.trim())?.name.trim() || defaultSpeakerName(i) }));
+};
+
+export const speakerName = (speakers: Speaker[] | undefined, id: string) =>
+  speakers?.find(s => s.id === id)?.name || id;
+
+// Models refer to unnamed people by speaker id; show their names instead
+export const nameMinutesPeople = (minutes: MeetingMinutes, speakers: Speaker[]): MeetingMinutes => ({
+  attendees: Array.from(new Set(minutes.attendees.map(a => speakerName(speakers, a)))),
+  decisions: minutes.decisions,
+  actionItems: minutes.actionItems.map(item => (item.owner ? { ...item, owner: speakerName(speakers, item.owner) } : item))
+});
+
+export const mergeSpeakers = (a: Speaker[] = [], b: Speaker[] = []): Speaker[] =>
+  [...a, ...b.filter(s => !a.some(existing => existing.id === s.id))];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole names only: renaming "说话人 1" leaves "说话人 10" alone, and "Ann"
+// leaves "Anna". Chinese names have no word boundaries to check.
+const replaceName = (text: string, from: string, to: string) => {
+  const before = /^[0-9A-Za-z]/.test(from) ? '(?<![0-9A-Za-z])' : '';
+  const after = /[0-9A-Za-z]$/.test(from) ? '(?![0-9A-Za-z])' : '';
+  return text.replace(new RegExp(`${before}${escapeRegExp(from)}${after}`, 'g'), () => to);
+};
+
+const renameInTree = (node: MindMapNode, from: string, to: string): MindMapNode => ({
+  ...node,
+  label: replaceName(node.label, from, to),
+  ...(node.children ? { children: node.children.map(c => renameInTree(c, from, to)) } : {})
+});
+
+// Renames a speaker everywhere the old name shows up: the speaker list, the
+// minutes, and the generated text and map (where the name was written out).
+export const renameSpeaker = (result: TransformationResult, id: string, name: string): TransformationResult => {
+  const trimmed = name.trim();
+  const speaker = result.speakers?.find(s => s.id === id);
+  if (!speaker || !trimmed || speaker.name === trimmed) return result;
+  const from = speaker.name;
+  const rename = (value: string) => (value === from || value === id ? trimmed : value);
+
+  const renamed: TransformationResult = {
+    ...result,
+    speakers: result.speakers!.map(s => (s.id === id ? { ...s, name: trimmed } : s)),
+    formalText: replaceName(result.formalText, from, trimmed),
+    mindMap: renameInTree(result.mindMap, from, trimmed)
+  };
+  if (result.minutes) {
+    renamed.minutes = {
+      attendees: result.minutes.attendees.map(rename),
+      decisions: result.minutes.decisions,
+      actionItems: result.minutes.actionItems.map(item => (item.owner ? { ...item, owner: rename(item.owner) } : item))
+    };
+  }
+  return renamed;
+};
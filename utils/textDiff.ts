@@ -0,0 +1,87 @@
+import { MindMapNode } from '../types';
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Above this many table cells the changed middle is shown as replaced wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+
+// CJK characters are compared one by one, other text by word
+const tokenize = (text: string): string[] =>
+  text.match(/[\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]|[A-Za-z0-9_]+|\s+|[^]/g) || [];
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+// Longest-common-subsequence diff of two texts
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, start).join(''));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    push(parts, 'delete', midA.join(''));
+    push(parts, 'insert', midB.join(''));
+  } else {
+    // lengths[i][j]: LCS of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        push(parts, 'equal', midA[i++]);
+        j++;
+      } else if (i < midA.length && (j === midB.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        push(parts, 'delete', midA[i++]);
+      } else {
+        push(parts, 'insert', midB[j++]);
+      }
+    }
+  }
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+};
+
+const labelPaths = (node: MindMapNode, prefix: string[] = [], out: string[] = []): string[] => {
+  const path = [...prefix, node.label.trim()];
+  out.push(path.join(' › '));
+  node.children?.forEach(child => labelPaths(child, path, out));
+  return out;
+};
+
+// Branches that appear only in one of two maps, identified by their label path
+export const diffMindMaps = (before: MindMapNode, after: MindMapNode): { added: string[]; removed: string[] } => {
+  const a = labelPaths(before);
+  const b = labelPaths(after);
+  const inA = new Set(a);
+  const inB = new Set(b);
+  return {
+    added: b.filter(path => !inA.has(path)),
+    removed: a.filter(path => !inB.has(path))
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MindMapNode } from '../types';
+import { addChild, assignIds, moveNode, removeNode, renameNode } from './mindMapTree';
+import { syncTextFromMap } from './textMapSync';
+
+const TEXT = [
+  '## A',
+  '',
+  'A 部分的正式表述。',
+  '',
+  '## B',
+  '',
+  'B 部分的正式表述。',
+  '',
+  '## C',
+  '',
+  'C 部分的正式表述。'
+].join('\n');
+
+// As the model returns it: no ids
+const BASE: MindMapNode = {
+  label: '根',
+  children: [
+    { label: 'A', children: [{ label: 'a1' }] },
+    { label: 'B', children: [{ label: 'b1' }] },
+    { label: 'C', children: [{ label: 'c1' }] }
+  ]
+};
+
+// As the editor hands it back: path ids added before the edit
+const edited = (edit: (tree: MindMapNode) => MindMapNode) => edit(assignIds(BASE));
+
+describe('syncTextFromMap', () => {
+  it('drops only the section of a deleted branch', () => {
+    const after = edited(tree => removeNode(tree, 'root-0'));
+    expect(syncTextFromMap(TEXT, BASE, after)).toBe('## B\n\nB 部分的正式表述。\n\n## C\n\nC 部分的正式表述。');
+  });
+
+  it('keeps the prose when branches are reordered', () => {
+    const after = edited(tree => moveNode(tree, 'root-2', 'root', 0));
+    expect(syncTextFromMap(TEXT, BASE, after)).toBe(TEXT);
+  });
+
+  it('rewrites only the section of an edited branch', () => {
+    const after = edited(tree => renameNode(removeNode(tree, 'root-0'), 'root-1-0', 'b2'));
+    expect(syncTextFromMap(TEXT, BASE, after)).toBe('## B\n\n- b2\n\n## C\n\nC 部分的正式表述。');
+  });
+
+  it('adds a new branch after the one before it', () => {
+    const after = edited(tree => {
+      const { tree: added } = addChild(tree, 'root', 'D');
+      return moveNode(added, added.children![3].id!, 'root', 1);
+    });
+    expect(syncTextFromMap(TEXT, BASE, after)).toBe([
+      '## A', '', 'A 部分的正式表述。', '', '## D', '', '## B', '', 'B 部分的正式表述。', '', '## C', '', 'C 部分的正式表述。'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,176 @@
+import { MindMapNode } from '../types';
+import { Block, parseDocument, stripInline } from './markdown';
+import { assignIds, labelKey } from './mindMapTree';
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+
+// Labels of a subtree, to tell whether a branch was edited
+const outlineKey = (node: MindMapNode): string =>
+  `${node.label}(${(node.children || []).map(outlineKey).join(',')})`;
+
+// Markdown for one first-level branch: a heading, its leaves as a list and
+// every child with children of its own as a subheading. Deeper levels are
+// folded into the list item text.
+export const sectionFromBranch = (branch: MindMapNode, level = 2): string => {
+  const inline = (node: MindMapNode): string =>
+    node.children?.length ? `${node.label}：${node.children.map(inline).join('、')}` : node.label;
+  const parts = [`${'#'.repeat(Math.min(level, 6))} ${branch.label}`];
+  let list: string[] = [];
+  const flush = () => {
+    if (list.length > 0) parts.push(list.map(item => `- ${item}`).join('\n'));
+    list = [];
+  };
+  for (const child of branch.children || []) {
+    if (!child.children?.length || level >= 3) {
+      list.push(inline(child));
+      continue;
+    }
+    flush();
+    parts.push(sectionFromBranch(child, level + 1));
+  }
+  flush();
+  return parts.join('\n\n');
+};
+
+interface Section {
+  key: string;
+  // Line range [start, end) of the heading and everything under it
+  start: number;
+  end: number;
+}
+
+// Headings the first-level branches correspond to: the highest level used,
+// or the next one down when that is a single title heading.
+const findSections = (lines: string[]): { level: number; sections: Section[] } => {
+  const headings = lines
+    .map((line, index) => {
+      const match = line.match(HEADING);
+      return match ? { index, level: match[1].length, key: labelKey(stripInline(match[2])) } : null;
+    })
+    .filter((h): h is { index: number; level: number; key: string } => h !== null);
+  if (headings.length === 0) return { level: 2, sections: [] };
+
+  let level = Math.min(...headings.map(h => h.level));
+  if (headings.filter(h => h.level === level).length === 1 && headings.some(h => h.level > level)) {
+    level = Math.min(...headings.filter(h => h.level > level).map(h => h.level));
+  }
+  const sections = headings
+    .filter(h => h.level === level)
+    .map(h => {
+      const next = headings.find(o => o.index > h.index && o.level <= level);
+      return { key: h.key, start: h.index, end: next ? next.index : lines.length };
+    });
+  return { level, sections };
+};
+
+// Rewrites the sections of the text whose branches changed between two
+// versions of the map. Sections are matched to branches by heading text;
+// new branches are added after the section of the branch before them and
+// removed branches take their section with them. Branches are matched by id:
+// a map straight from the model has none, and gets the same path ids the
+// editor gave the edited one.
+export const syncTextFromMap = (text: string, before: MindMapNode, after: MindMapNode): string => {
+  const lines = text.split('\n');
+  const { level, sections } = findSections(lines);
+  const oldBranches = assignIds(before).children || [];
+  const newBranches = assignIds(after).children || [];
+  const sameBranch = (a: MindMapNode, b: MindMapNode) => a.id === b.id;
+  const sectionFor = (branch?: MindMapNode) =>
+    branch ? sections.find(s => s.key === labelKey(branch.label)) : undefined;
+
+  // Replacement text per section start line, and sections to drop
+  const replace = new Map<number, string>();
+  const insertAfter = new Map<number, string[]>();
+  const appended: string[] = [];
+
+  oldBranches.forEach(old => {
+    const index = newBranches.findIndex(b => sameBranch(old, b));
+    const section = sectionFor(old);
+    if (index === -1) {
+      if (section) replace.set(section.start, '');
+    } else if (outlineKey(old) !== outlineKey(newBranches[index]) && section) {
+      replace.set(section.start, sectionFromBranch(newBranches[index], level));
+    } else if (outlineKey(old) !== outlineKey(newBranches[index])) {
+      appended.push(sectionFromBranch(newBranches[index], level));
+    }
+  });
+  newBranches.forEach((branch, j) => {
+    if (oldBranches.some(old => sameBranch(old, branch))) return;
+    const previous = sectionFor(newBranches[j - 1]);
+    const markdown = sectionFromBranch(branch, level);
+    if (previous) insertAfter.set(previous.start, [...(insertAfter.get(previous.start) || []), markdown]);
+    else appended.push(markdown);
+  });
+
+  const out: string[] = [];
+  let cursor = 0;
+  for (const section of sections) {
+    out.push(...lines.slice(cursor, section.start));
+    const body = lines.slice(section.start, section.end);
+    const replacement = replace.get(section.start);
+    if (replacement === undefined) out.push(...body);
+    else if (replacement) out.push(replacement, '');
+    for (const markdown of insertAfter.get(section.start) || []) out.push('', markdown, '');
+    cursor = section.end;
+  }
+  out.push(...lines.slice(cursor));
+  const rebuilt = out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return [rebuilt, ...appended].filter(Boolean).join('\n\n');
+};
+
+// First sentence of a paragraph, short enough for a node label
+const summarize = (text: string, max = 40) => {
+  const sentence = stripInline(text).split(/(?<=[。！？!?；;])|\n/)[0].trim();
+  return sentence.length > max ? `${sentence.slice(0, max)}…` : sentence;
+};
+
+// Keeps ids, sources and everything else of the old nodes whose labels survived
+const reuseNodes = (node: MindMapNode, old?: MindMapNode): MindMapNode => {
+  const oldChildren = old?.children || [];
+  const children = (node.children || []).map(child =>
+    reuseNodes(child, oldChildren.find(o => labelKey(o.label) === labelKey(child.label)))
+  );
+  const { children: _, ...rest } = old || ({} as MindMapNode);
+  return { ...rest, label: node.label, ...(children.length > 0 ? { children } : {}) };
+};
+
+// Builds the map from the outline of the text: headings become branches,
+// list items their children and other paragraphs a leaf with their first
+// sentence. A single top-level title becomes the root label.
+export const mapFromText = (text: string, previous: MindMapNode): MindMapNode => {
+  const blocks: Block[] = parseDocument(text).flat();
+  const headingLevels = blocks.flatMap(b => (b.type === 'heading' ? [b.level] : []));
+  const top = headingLevels.length > 0 ? Math.min(...headingLevels) : 0;
+  const hasTitle = top > 0 && headingLevels.filter(l => l === top).length === 1 && headingLevels.some(l => l > top);
+
+  const root: MindMapNode = { label: previous.label, children: [] };
+  // Open headings, innermost last
+  const stack: { level: number; node: MindMapNode }[] = [{ level: 0, node: root }];
+  const current = () => stack[stack.length - 1].node;
+  const add = (parent: MindMapNode, label: string) => {
+    const node: MindMapNode = { label, children: [] };
+    if (label) parent.children!.push(node);
+    return node;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      if (hasTitle && block.level === top) {
+        root.label = stripInline(block.text);
+        continue;
+      }
+      while (stack.length > 1 && stack[stack.length - 1].level >= block.level) stack.pop();
+      stack.push({ level: block.level, node: add(current(), stripInline(block.text)) });
+    } else if (block.type === 'list') {
+      block.items.forEach(item => add(current(), summarize(item)));
+    } else {
+      add(current(), summarize(block.text));
+    }
+  }
+
+  const prune = (node: MindMapNode): MindMapNode => ({
+    ...node,
+    children: node.children?.length ? node.children.map(prune) : undefined
+  });
+  return assignIds(reuseNodes(prune(root), previous));
+};
@@ -1,18 +1,48 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, ProxyOptions } from 'vite';
 import react from '@vitejs/plugin-react';
+import { PROXY_ROUTES } from './services/proxyRoutes';
+
+// Forwards a proxy route to the provider with the key from .env.local added
+// on the way, so the key stays on this server and out of the bundle
+const keyProxy = (route: string, target: string, headers: Record<string, string> | null): ProxyOptions => ({
+  target,
+  changeOrigin: true,
+  rewrite: (p) => p.slice(route.length),
+  ...(headers ? { headers } : {})
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const proxy = {
+      [PROXY_ROUTES.gemini]: keyProxy(
+        PROXY_ROUTES.gemini,
+        'https://generativelanguage.googleapis.com',
+        env.GEMINI_API_KEY ? { 'x-goog-api-key': env.GEMINI_API_KEY } : null
+      ),
+      [PROXY_ROUTES.openai]: keyProxy(
+        PROXY_ROUTES.openai,
+        env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        env.OPENAI_API_KEY ? { Authorization: `Bearer ${env.OPENAI_API_KEY}` } : null
+      )
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
+      // Only non-secret defaults are built in; API keys are entered at runtime
+      // or held by the proxy above
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.SPEECH_PROVIDER': JSON.stringify(env.SPEECH_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_TRANSCRIPTION_MODEL': JSON.stringify(env.OPENAI_TRANSCRIPTION_MODEL)
       },
       resolve: {
         alias: {